@@ -0,0 +1,81 @@
+/**
+ * CellEditor Component
+ *
+ * Text box laid over a cell for typing into it in place. Enter or clicking
+ * away keeps the text, Escape throws it away.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import type { CellBounds } from "../../types/spreadsheet";
+import { HEADER_FONT_FAMILY, HEADER_FONT_SIZE } from "../../utils/canvas";
+
+interface CellEditorProps {
+  bounds: CellBounds; // Cell position inside the spreadsheet (CSS pixels)
+  initialValue: string;
+  fontSize?: number; // Grows with the sheet zoom
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}
+
+export const CellEditor: React.FC<CellEditorProps> = ({
+  bounds,
+  initialValue,
+  fontSize = HEADER_FONT_SIZE,
+  onCommit,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Enter and Escape close the editor, so the blur that follows must not commit again
+  const closedRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const close = (commit: boolean) => {
+    if (closedRef.current) return;
+    closedRef.current = true;
+    if (commit) {
+      onCommit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      close(true);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      close(false);
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => close(true)}
+      style={{
+        position: "absolute",
+        left: `${bounds.x}px`,
+        top: `${bounds.y}px`,
+        width: `${bounds.width}px`,
+        height: `${bounds.height}px`,
+        boxSizing: "border-box",
+        margin: 0,
+        padding: "0 2px",
+        border: "2px solid #000000",
+        outline: "none",
+        background: "#ffffff",
+        font: `${fontSize}px ${HEADER_FONT_FAMILY}`,
+      }}
+    />
+  );
+};
+
+export default CellEditor;
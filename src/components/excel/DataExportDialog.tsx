@@ -0,0 +1,108 @@
+/**
+ * DataExportDialog Component
+ *
+ * Options for exporting per-cell values as CSV or TSV: file format, which
+ * values to include and whether to export the visible cells or the region
+ * holding every painted cell, scrolled out of view or not
+ */
+
+import React, { useState } from "react";
+import {
+  Window,
+  WindowHeader,
+  WindowContent,
+  Button,
+  Checkbox,
+  Radio,
+} from "react95";
+import type { DataExportFormat, DataExportOptions } from "../../types/spreadsheet";
+
+interface DataExportDialogProps {
+  onExport: (options: DataExportOptions) => void;
+  onCancel: () => void;
+}
+
+export const DataExportDialog: React.FC<DataExportDialogProps> = ({ onExport, onCancel }) => {
+  const [format, setFormat] = useState<DataExportFormat>("csv");
+  const [levels, setLevels] = useState(false);
+  const [colors, setColors] = useState(false);
+  const [range, setRange] = useState<DataExportOptions["range"]>("visible");
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        zIndex: 2000,
+      }}
+    >
+      <Window style={{ width: "280px" }}>
+        <WindowHeader className="window-title">
+          <span>Export Data</span>
+          <Button size="sm" square onClick={onCancel}>
+            <span className="close-icon" />
+          </Button>
+        </WindowHeader>
+        <WindowContent>
+          <div style={{ fontSize: "11px", marginBottom: "4px" }}>Format</div>
+          <div style={{ display: "flex", gap: "12px", marginBottom: "8px" }}>
+            <Radio
+              label="CSV"
+              checked={format === "csv"}
+              onChange={() => setFormat("csv")}
+              name="data-export-format"
+            />
+            <Radio
+              label="TSV"
+              checked={format === "tsv"}
+              onChange={() => setFormat("tsv")}
+              name="data-export-format"
+            />
+          </div>
+
+          <div style={{ fontSize: "11px", marginBottom: "4px" }}>Values</div>
+          <Checkbox label="Density" checked disabled />
+          <Checkbox
+            label="Subdivision level"
+            checked={levels}
+            onChange={(e) => setLevels(e.target.checked)}
+          />
+          <Checkbox
+            label="Sampled color (hex)"
+            checked={colors}
+            onChange={(e) => setColors(e.target.checked)}
+          />
+
+          <div style={{ fontSize: "11px", margin: "8px 0 4px" }}>Range</div>
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <Radio
+              label="Visible cells"
+              checked={range === "visible"}
+              onChange={() => setRange("visible")}
+              name="data-export-range"
+            />
+            <Radio
+              label="All painted cells"
+              checked={range === "painted"}
+              onChange={() => setRange("painted")}
+              name="data-export-range"
+            />
+          </div>
+
+          <div style={{ display: "flex", justifyContent: "flex-end", gap: "6px", marginTop: "12px" }}>
+            <Button onClick={() => onExport({ format, levels, colors, range })} style={{ minWidth: "70px" }}>
+              Export
+            </Button>
+            <Button onClick={onCancel} style={{ minWidth: "70px" }}>
+              Cancel
+            </Button>
+          </div>
+        </WindowContent>
+      </Window>
+    </div>
+  );
+};
+
+export default DataExportDialog;
@@ -0,0 +1,110 @@
+/**
+ * DataImportDialog Component
+ *
+ * Options for writing an imported table into cell density: how values are
+ * normalized to 0-1 and whether fading is turned off so they stay
+ */
+
+import React, { useState } from "react";
+import {
+  Window,
+  WindowHeader,
+  WindowContent,
+  Button,
+  Checkbox,
+  Radio,
+} from "react95";
+import type { CellValue, DataNormalization } from "../../types/spreadsheet";
+import { getColumnLabel } from "../../utils/canvas";
+
+interface DataImportDialogProps {
+  fileName: string;
+  cells: CellValue[];
+  onImport: (normalization: DataNormalization, persistent: boolean) => void;
+  onCancel: () => void;
+}
+
+const NORMALIZATION_OPTIONS: { value: DataNormalization; label: string }[] = [
+  { value: "minmax", label: "Min to max" },
+  { value: "percentile", label: "5th to 95th percentile" },
+  { value: "log", label: "Logarithmic" },
+];
+
+/**
+ * Cell range covered by the values, like A1:F13
+ */
+function describeRange(cells: CellValue[]): string {
+  const bounds = cells.reduce(
+    (range, cell) => ({
+      firstCol: Math.min(range.firstCol, cell.col),
+      lastCol: Math.max(range.lastCol, cell.col),
+      firstRow: Math.min(range.firstRow, cell.row),
+      lastRow: Math.max(range.lastRow, cell.row),
+    }),
+    { firstCol: Infinity, lastCol: -Infinity, firstRow: Infinity, lastRow: -Infinity }
+  );
+  const first = `${getColumnLabel(bounds.firstCol)}${bounds.firstRow + 1}`;
+  const last = `${getColumnLabel(bounds.lastCol)}${bounds.lastRow + 1}`;
+  return first === last ? first : `${first}:${last}`;
+}
+
+export const DataImportDialog: React.FC<DataImportDialogProps> = ({ fileName, cells, onImport, onCancel }) => {
+  const [normalization, setNormalization] = useState<DataNormalization>("minmax");
+  const [persistent, setPersistent] = useState(true);
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        zIndex: 2000,
+      }}
+    >
+      <Window style={{ width: "280px" }}>
+        <WindowHeader className="window-title">
+          <span>Insert Data</span>
+          <Button size="sm" square onClick={onCancel}>
+            <span className="close-icon" />
+          </Button>
+        </WindowHeader>
+        <WindowContent>
+          <div style={{ fontSize: "11px", marginBottom: "8px", wordBreak: "break-all" }}>
+            {fileName}: {cells.length} values in {describeRange(cells)}
+          </div>
+
+          <div style={{ fontSize: "11px", marginBottom: "4px" }}>Scale values</div>
+          <div style={{ display: "flex", flexDirection: "column", marginBottom: "8px" }}>
+            {NORMALIZATION_OPTIONS.map((option) => (
+              <Radio
+                key={option.value}
+                label={option.label}
+                checked={normalization === option.value}
+                onChange={() => setNormalization(option.value)}
+                name="data-import-normalization"
+              />
+            ))}
+          </div>
+
+          <Checkbox
+            label="Keep values (no fading)"
+            checked={persistent}
+            onChange={(e) => setPersistent(e.target.checked)}
+          />
+
+          <div style={{ display: "flex", justifyContent: "flex-end", gap: "6px", marginTop: "12px" }}>
+            <Button onClick={() => onImport(normalization, persistent)} style={{ minWidth: "70px" }}>
+              Insert
+            </Button>
+            <Button onClick={onCancel} style={{ minWidth: "70px" }}>
+              Cancel
+            </Button>
+          </div>
+        </WindowContent>
+      </Window>
+    </div>
+  );
+};
+
+export default DataImportDialog;
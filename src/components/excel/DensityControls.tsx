@@ -4,23 +4,142 @@
  * UI controls for adjusting density painting parameters
  */
 
-import React from "react";
-import { GroupBox, Slider, Tooltip } from "react95";
-import type { Config } from "../../types/spreadsheet";
+import React, { useRef } from "react";
+import { Button, Checkbox, GroupBox, NumberInput, Select, Slider, Tooltip } from "react95";
+import type {
+  Config,
+  FalloffKind,
+  BezierControlPoints,
+  SubdivisionMode,
+  SamplingMode,
+  PaletteKind,
+  DitherMode,
+} from "../../types/spreadsheet";
+import { FALLOFF_KINDS, FALLOFF_LABELS, evaluateFalloff } from "../../utils/falloff";
+import { PALETTE_KINDS, PALETTE_LABELS } from "../../utils/palette";
+import { MAX_SHEET_COLUMNS, MAX_SHEET_ROWS } from "../../utils/density";
 
 interface DensityControlsProps {
   config: Config;
   onChange: (config: Partial<Config>) => void;
   imageScale: number;
   onImageScaleChange: (scale: number) => void;
+  sampling: SamplingMode;
+  onSamplingChange: (sampling: SamplingMode) => void;
+  palette: PaletteKind;
+  onPaletteChange: (palette: PaletteKind) => void;
+  customPaletteName: string | null; // File name of the loaded custom palette
+  onPaletteFileSelect: (file: File) => void;
+  dither: DitherMode;
+  onDitherChange: (dither: DitherMode) => void;
 }
 
+const FALLOFF_OPTIONS = FALLOFF_KINDS.map((kind) => ({
+  value: kind,
+  label: FALLOFF_LABELS[kind],
+}));
+
+const BEZIER_LABELS = ["X1", "Y1", "X2", "Y2"];
+
+const SUBDIVISION_MODE_OPTIONS: Array<{ value: SubdivisionMode; label: string }> = [
+  { value: "uniform", label: "Uniform" },
+  { value: "adaptive", label: "Adaptive (image detail)" },
+];
+
+const SAMPLING_OPTIONS: Array<{ value: SamplingMode; label: string }> = [
+  { value: "center", label: "Center pixel" },
+  { value: "average", label: "Average" },
+  { value: "median", label: "Median" },
+  { value: "dominant", label: "Dominant color" },
+];
+
+const PALETTE_OPTIONS = PALETTE_KINDS.map((kind) => ({
+  value: kind,
+  label: PALETTE_LABELS[kind],
+}));
+
+const DITHER_OPTIONS: Array<{ value: DitherMode; label: string }> = [
+  { value: "none", label: "None" },
+  { value: "ordered", label: "Ordered (Bayer)" },
+  { value: "error-diffusion", label: "Error diffusion" },
+];
+
+/**
+ * Whole number of columns or rows between 1 and max, the current size if the input is not a number
+ */
+function clampSheetSize(value: number, current: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(max, Math.max(1, Math.round(value))) : current;
+}
+
+// Samples along the preview curve
+const PREVIEW_SAMPLES = 48;
+
+/**
+ * Brush weight from the cursor (left) to the edge of the brush (right)
+ */
+const FalloffPreview: React.FC<{ falloff: FalloffKind; bezier: BezierControlPoints }> = ({
+  falloff,
+  bezier,
+}) => {
+  const width = 160;
+  const height = 48;
+  const points: string[] = [];
+
+  for (let i = 0; i <= PREVIEW_SAMPLES; i++) {
+    const t = i / PREVIEW_SAMPLES;
+    // Sample just inside the edge so hard-edged profiles show their drop
+    const weight = evaluateFalloff(falloff, Math.min(t, 0.999), bezier);
+    points.push(`${(t * width).toFixed(1)},${((1 - weight) * height).toFixed(1)}`);
+  }
+  points.push(`${width},${height}`);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      style={{
+        display: "block",
+        width: "100%",
+        height: `${height}px`,
+        background: "#ffffff",
+        border: "1px solid #808080",
+      }}
+    >
+      <polyline
+        points={points.join(" ")}
+        fill="none"
+        stroke="#000080"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
+
 export const DensityControls: React.FC<DensityControlsProps> = ({
   config,
   onChange,
   imageScale,
   onImageScaleChange,
+  sampling,
+  onSamplingChange,
+  palette,
+  onPaletteChange,
+  customPaletteName,
+  onPaletteFileSelect,
+  dither,
+  onDitherChange,
 }) => {
+  const paletteInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePaletteFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      onPaletteFileSelect(file);
+    }
+  };
+
   return (
     <GroupBox label="Controls" style={{ marginBottom: "10px" }}>
       <div style={{ padding: "10px" }}>
@@ -64,8 +183,16 @@ export const DensityControls: React.FC<DensityControlsProps> = ({
             max={3}
             step={0.1}
             value={config.decayMultiplier}
+            disabled={config.persistent}
             onChange={(value) => onChange({ decayMultiplier: value })}
           />
+          <div style={{ fontSize: "11px" }}>
+            <Checkbox
+              label="Keep density (no fading)"
+              checked={config.persistent}
+              onChange={(e) => onChange({ persistent: e.target.checked })}
+            />
+          </div>
         </div>
 
         {/* Influence Radius */}
@@ -88,6 +215,78 @@ export const DensityControls: React.FC<DensityControlsProps> = ({
             value={config.influenceRadius}
             onChange={(value) => onChange({ influenceRadius: value })}
           />
+          <div style={{ marginTop: "6px", fontSize: "11px" }}>
+            <Checkbox
+              label="Size on screen (ignores zoom)"
+              checked={config.brushSpace === "screen"}
+              onChange={(e) => onChange({ brushSpace: e.target.checked ? "screen" : "sheet" })}
+            />
+          </div>
+        </div>
+
+        {/* Brush Falloff */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="How brush strength fades toward its edge" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Brush Falloff<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          <Select<FalloffKind>
+            width="100%"
+            options={FALLOFF_OPTIONS}
+            value={config.falloff}
+            onChange={(option) => onChange({ falloff: option.value })}
+            style={{ marginBottom: "8px" }}
+          />
+          <FalloffPreview falloff={config.falloff} bezier={config.falloffBezier} />
+          {config.falloff === "cubic-bezier" &&
+            config.falloffBezier.map((value, index) => (
+              <div key={BEZIER_LABELS[index]} style={{ marginTop: "8px" }}>
+                <label
+                  style={{
+                    display: "block",
+                    marginBottom: "8px",
+                    fontSize: "11px",
+                  }}
+                >
+                  {BEZIER_LABELS[index]}: {value.toFixed(2)}
+                </label>
+                <Slider
+                  style={{ marginBottom: 0 }}
+                  size="100%"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={value}
+                  onChange={(newValue) => {
+                    const falloffBezier = [...config.falloffBezier] as BezierControlPoints;
+                    falloffBezier[index] = newValue;
+                    onChange({ falloffBezier });
+                  }}
+                />
+              </div>
+            ))}
+        </div>
+
+        {/* Pen Pressure */}
+        <div style={{ marginBottom: "15px", fontSize: "11px" }}>
+          <Checkbox
+            label="Pen pressure controls strength"
+            checked={config.pressureSensitivity}
+            onChange={(e) => onChange({ pressureSensitivity: e.target.checked })}
+          />
+          <Checkbox
+            label="Pen pressure controls size"
+            checked={config.pressureAffectsSize}
+            onChange={(e) => onChange({ pressureAffectsSize: e.target.checked })}
+          />
         </div>
 
         {/* Velocity Influence */}
@@ -190,6 +389,121 @@ export const DensityControls: React.FC<DensityControlsProps> = ({
           />
         </div>
 
+        {/* Diffusion */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="How fast paint bleeds into neighboring cells" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Ink Spread: {config.diffusionRate.toFixed(1)}/s<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          <Slider
+            style={{ marginBottom: 0 }}
+            size="100%"
+            min={0}
+            max={5}
+            step={0.1}
+            value={config.diffusionRate}
+            onChange={(value) => onChange({ diffusionRate: value })}
+          />
+          <div style={{ fontSize: "11px" }}>
+            <Checkbox
+              label="Spread diagonally"
+              checked={config.diffusionNeighbors === 8}
+              onChange={(e) => onChange({ diffusionNeighbors: e.target.checked ? 8 : 4 })}
+            />
+          </div>
+        </div>
+
+        {/* Wind */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="Drifts paint across the sheet, in cells per second" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Wind Strength: {config.windStrength.toFixed(1)}<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          <Slider
+            style={{ marginBottom: 0 }}
+            size="100%"
+            min={0}
+            max={10}
+            step={0.5}
+            value={config.windStrength}
+            onChange={(value) => onChange({ windStrength: value })}
+          />
+        </div>
+
+        <div style={{ marginBottom: "15px" }}>
+          <label
+            style={{
+              display: "block",
+              marginBottom: "8px",
+              fontSize: "11px",
+            }}
+          >
+            Wind Direction: {config.windDirection}°
+          </label>
+          <Slider
+            style={{ marginBottom: 0 }}
+            size="100%"
+            min={0}
+            max={345}
+            step={15}
+            value={config.windDirection}
+            onChange={(value) => onChange({ windDirection: value })}
+          />
+        </div>
+
+        {/* Sheet Size */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="Only the cells in view are simulated, however large the sheet" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Sheet Size<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          {/* Committed on blur, so typing a number does not shrink the sheet (and drop its cells) on the way */}
+          <div style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "11px" }}>
+            <NumberInput
+              key={`columns-${config.columns}`}
+              width={84}
+              min={1}
+              max={MAX_SHEET_COLUMNS}
+              defaultValue={config.columns}
+              onChange={(value) => onChange({ columns: clampSheetSize(value, config.columns, MAX_SHEET_COLUMNS) })}
+            />
+            <span>columns ×</span>
+            <NumberInput
+              key={`rows-${config.rows}`}
+              width={84}
+              min={1}
+              max={MAX_SHEET_ROWS}
+              defaultValue={config.rows}
+              onChange={(value) => onChange({ rows: clampSheetSize(value, config.rows, MAX_SHEET_ROWS) })}
+            />
+            <span>rows</span>
+          </div>
+        </div>
+
         {/* Max Subdivisions */}
         <div style={{ marginBottom: "15px" }}>
           <label
@@ -212,6 +526,142 @@ export const DensityControls: React.FC<DensityControlsProps> = ({
           />
         </div>
 
+        {/* Subdivision Mode */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="Adaptive splits follow edges in the inserted image" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Subdivision<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          <Select<SubdivisionMode>
+            width="100%"
+            options={SUBDIVISION_MODE_OPTIONS}
+            value={config.subdivisionMode}
+            onChange={(option) => onChange({ subdivisionMode: option.value })}
+          />
+        </div>
+
+        {config.subdivisionMode === "adaptive" && (
+          <div style={{ marginBottom: "15px" }}>
+            <Tooltip text="Higher = only split on stronger edges" enterDelay={100} leaveDelay={500}>
+              <label
+                style={{
+                  display: "block",
+                  marginBottom: "8px",
+                  fontSize: "11px",
+                  cursor: "help",
+                }}
+              >
+                Detail Threshold: {config.detailThreshold.toFixed(3)}<span style={{ marginLeft: "6px" }}>ⓘ</span>
+              </label>
+            </Tooltip>
+            <Slider
+              style={{ marginBottom: 0 }}
+              size="100%"
+              min={0}
+              max={0.2}
+              step={0.005}
+              value={config.detailThreshold}
+              onChange={(value) => onChange({ detailThreshold: value })}
+            />
+          </div>
+        )}
+
+        {/* Color Sampling */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="How each cell picks its color from the image under it" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Color Sampling<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          <Select<SamplingMode>
+            width="100%"
+            options={SAMPLING_OPTIONS}
+            value={sampling}
+            onChange={(option) => onSamplingChange(option.value)}
+          />
+        </div>
+
+        {/* Palette */}
+        <div style={{ marginBottom: "15px" }}>
+          <Tooltip text="Reduce cell fills to a limited palette" enterDelay={100} leaveDelay={500}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+                cursor: "help",
+              }}
+            >
+              Palette<span style={{ marginLeft: "6px" }}>ⓘ</span>
+            </label>
+          </Tooltip>
+          <Select<PaletteKind>
+            width="100%"
+            options={PALETTE_OPTIONS}
+            value={palette}
+            onChange={(option) => onPaletteChange(option.value)}
+          />
+          {palette === "custom" && (
+            <div style={{ display: "flex", alignItems: "center", gap: "6px", marginTop: "6px" }}>
+              <input
+                ref={paletteInputRef}
+                type="file"
+                accept=".pal,.gpl"
+                onChange={handlePaletteFileChange}
+                style={{ display: "none" }}
+              />
+              <Button size="sm" onClick={() => paletteInputRef.current?.click()}>
+                Load...
+              </Button>
+              <span
+                style={{
+                  fontSize: "11px",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {customPaletteName ?? "No palette loaded"}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {palette !== "full" && (
+          <div style={{ marginBottom: "15px" }}>
+            <label
+              style={{
+                display: "block",
+                marginBottom: "8px",
+                fontSize: "11px",
+              }}
+            >
+              Dithering
+            </label>
+            <Select<DitherMode>
+              width="100%"
+              options={DITHER_OPTIONS}
+              value={dither}
+              onChange={(option) => onDitherChange(option.value)}
+            />
+          </div>
+        )}
+
         {/* Image Scale */}
         <div style={{ marginBottom: "10px" }}>
           <label
@@ -2,38 +2,69 @@
  * DensitySpreadsheet Component
  *
  * Interactive spreadsheet with density effect - cells subdivide based on mouse proximity
+ * Clicking selects a cell, double-clicking types into it
+ *
+ * The canvas only covers the visible part of the sheet. It sticks to the top
+ * left of a scroll area as large as the whole (zoomed) sheet, so the browser
+ * provides scrollbars and wheel scrolling, and the scene draws whatever is
+ * scrolled to. Ctrl+wheel and pinching zoom, middle-drag and Space+drag pan.
  */
 
-import React, { useRef, useEffect, useState } from 'react';
-import type { Point, Config, CellBounds, SubdividedCell, CellDensityState } from '../../types/spreadsheet';
-import {
-  calculateDistance,
-  getCellCenter,
-  subdivideCell,
-  getCellsAtEachLevel,
-  getSubdivisionLines,
-  type SubdivisionLine,
-} from '../../utils/subdivision';
+import React, {
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useState,
+  useMemo,
+  forwardRef,
+  useImperativeHandle,
+} from 'react';
+import styled from 'styled-components';
+import { createScrollbars } from 'react95';
+import type {
+  Config,
+  CellAddress,
+  CellEntry,
+  CellValue,
+  Point,
+  Viewport,
+  SceneOptions,
+  SceneImage,
+  RendererKind,
+  SamplingMode,
+  DitherMode,
+  Rgb,
+  ExportFormat,
+  SheetExportOptions,
+  DataExportOptions,
+  GifCaptureOptions,
+  CapturedAnimation,
+} from '../../types/spreadsheet';
+import { createDefaultConfig, getSheetBrushConfig } from '../../utils/density';
 import {
-  clearCanvas,
-  drawCell,
-  drawCellWithDistanceColor,
-  drawColumnHeaders,
-  drawRowHeaders,
-  drawCornerHeader,
-  calculateImageBorderColor,
+  HEADER_WIDTH,
+  HEADER_HEIGHT,
+  HEADER_FONT_SIZE,
+  clampZoom,
+  getCellAtPoint,
+  toSheetPoint,
 } from '../../utils/canvas';
-import {
-  updateCellDensity,
-  densityToSubdivisionLevel,
-  densityToHeatColor,
-  createDefaultConfig,
-} from '../../utils/density';
-import {
-  interpolatePoints,
-  type TimestampedPoint,
-  filterRecentPoints,
-} from '../../utils/interpolation';
+import { createSceneHost, type SceneHost } from '../../utils/sceneHost';
+import type { DensitySnapshot, InputSample } from '../../utils/simulation';
+import { StrokeRecorder, getStrokeBounds, type StrokeLog } from '../../utils/strokeLog';
+import { CellEditor } from './CellEditor';
+
+const NO_CELLS: CellEntry[] = [];
+
+// Zoom factor per pixel of Ctrl+wheel scrolling
+const WHEEL_ZOOM_RATE = 0.002;
+
+const SheetScroller = styled.div`
+  width: 100%;
+  height: 100%;
+  overflow: scroll;
+  ${createScrollbars()}
+`;
 
 interface DensitySpreadsheetProps {
   width?: number;
@@ -42,94 +73,280 @@ interface DensitySpreadsheetProps {
   debugMode?: boolean;
   insertedImage?: string | null;
   imageScale?: number;
+  renderer?: RendererKind;
+  sampling?: SamplingMode;
+  palette?: Rgb[] | null; // Colors cell fills are reduced to, null keeps full color
+  dither?: DitherMode;
+  eraser?: boolean; // Erase instead of paint (right-drag or Alt also erase)
+  zoom?: number; // Screen pixels per sheet pixel, 1 = 100%
+  onZoomChange?: (zoom: number) => void; // Ctrl+wheel or a pinch asked for a new zoom
+  onPaint?: () => void; // Called when a pressed pointer paints or erases, not while hovering
+  cells?: CellEntry[]; // Values and formulas typed into cells
+  selectedCell?: CellAddress | null;
+  onSelectCell?: (cell: CellAddress) => void;
+  onEditCell?: (cell: CellAddress, input: string) => void; // Text typed into a cell in place
 }
 
-const HEADER_WIDTH = 45;
-const HEADER_HEIGHT = 24;
+/**
+ * Commands available to the window hosting the spreadsheet
+ */
+export interface DensitySpreadsheetHandle {
+  startRecording(): void;
+  /** Stop recording and return the stroke log, null if not recording */
+  stopRecording(): StrokeLog | null;
+  replay(log: StrokeLog, speed: number): void;
+  /** Write values (densities between 0 and 1) into base cells */
+  setDensities(values: CellValue[]): void;
+  /** Density state of the sheet, for saving in a workbook */
+  snapshotDensity(): Promise<DensitySnapshot>;
+  /** Replace the sheet with saved density state, or an empty sheet for null */
+  restoreDensity(config: Config, snapshot: DensitySnapshot | null): void;
+  /** Export the current sheet as a PNG or SVG file */
+  exportSheet(format: ExportFormat, options: SheetExportOptions): Promise<Blob>;
+  /** Export per-cell values as a CSV or TSV file */
+  exportData(options: DataExportOptions): Promise<Blob>;
+  /** Start capturing frames for an animated GIF */
+  startCapture(options: GifCaptureOptions): void;
+  /** Stop capturing and return the captured frames */
+  stopCapture(): Promise<CapturedAnimation>;
+  /** Color the cells from a video frame in place of the inserted image, null removes it */
+  setVideoFrame(image: SceneImage | null): void;
+}
 
-export const DensitySpreadsheet: React.FC<DensitySpreadsheetProps> = ({
+export const DensitySpreadsheet = forwardRef<DensitySpreadsheetHandle, DensitySpreadsheetProps>(({
   width,
   height,
   config: configOverride = {},
   debugMode = false,
   insertedImage = null,
   imageScale = 1,
-}) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  renderer = 'canvas2d',
+  sampling = 'center',
+  palette = null,
+  dither = 'none',
+  eraser = false,
+  zoom = 1,
+  onZoomChange,
+  onPaint,
+  cells = NO_CELLS,
+  selectedCell = null,
+  onSelectCell,
+  onEditCell,
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [mousePos, setMousePos] = useState<Point | null>(null);
+  const scrollerRef = useRef<HTMLDivElement>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
-  const [cellDensities, setCellDensities] = useState<Map<string, CellDensityState>>(new Map());
-  const [cursorVelocity, setCursorVelocity] = useState<number>(0);
-  const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null);
-  const imageDataRef = useRef<ImageData | null>(null);
-  const imageDimensionsRef = useRef<{ width: number; height: number } | null>(null);
-  const animationFrameRef = useRef<number>();
-  const lastFrameTimeRef = useRef<number>(performance.now());
-  const lastMousePosRef = useRef<Point | null>(null);
-  const lastMouseMoveTimeRef = useRef<number>(performance.now());
-  const interpolatedPointsRef = useRef<TimestampedPoint[]>([]);
+  const [scroll, setScroll] = useState({ x: 0, y: 0 });
+  const [editingCell, setEditingCell] = useState<CellAddress | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [panning, setPanning] = useState(false);
+  const hostRef = useRef<SceneHost | null>(null);
+  const recorderRef = useRef<StrokeRecorder | null>(null);
+  // Scroll position as last set or reported, ahead of the state while a gesture runs
+  const scrollRef = useRef({ x: 0, y: 0 });
+  // Zoom last asked for, and the canvas point that should stay put when it is applied
+  const zoomRef = useRef(zoom);
+  const appliedZoomRef = useRef(zoom);
+  const zoomAnchorRef = useRef<Point | null>(null);
+  // Viewport the scene draws with, which pointer samples are converted with too
+  const hostViewportRef = useRef<Viewport>({ x: 0, y: 0, zoom });
+  const panRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  // Touches on the sheet, and the pinch they make while there are two of them
+  const touchesRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; center: Point } | null>(null);
+  const pinchedPointersRef = useRef(new Set<number>());
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
 
   // Merge default config with overrides
-  const config: Config = { ...createDefaultConfig(), ...configOverride };
+  const config: Config = useMemo(
+    () => ({ ...createDefaultConfig(), ...configOverride }),
+    [configOverride]
+  );
+  const options: SceneOptions = useMemo(
+    () => ({ debugMode, imageScale, renderer, sampling, palette, dither }),
+    [debugMode, imageScale, renderer, sampling, palette, dither]
+  );
 
-  // Helper function to sample pixel color from ImageData
-  const samplePixel = (imageData: ImageData, x: number, y: number): string => {
-    const { width, height, data } = imageData;
+  // Latest scene inputs, replayed into a freshly created host
+  const sceneImageRef = useRef<SceneImage | null>(null);
+  const videoFrameRef = useRef<SceneImage | null>(null);
+  const viewport: Viewport = useMemo(() => ({ x: scroll.x, y: scroll.y, zoom }), [scroll.x, scroll.y, zoom]);
+  const latestRef = useRef({ config, options, canvasSize, viewport, cells, selectedCell });
+  latestRef.current = { config, options, canvasSize, viewport, cells, selectedCell };
+
+  // Create the canvas and its scene host
+  // The canvas is created here rather than rendered, because control of a
+  // canvas can only be transferred to a worker once
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let canvas: HTMLCanvasElement;
+    let host: SceneHost;
+
+    // If the worker fails, the sheet starts over on the main thread with a new canvas
+    const mount = (allowWorker: boolean) => {
+      canvas = document.createElement('canvas');
+      canvas.style.display = 'block';
+      canvas.style.backgroundColor = '#ffffff';
+      container.appendChild(canvas);
+
+      const { config, options, canvasSize, cells, selectedCell } = latestRef.current;
+      canvas.style.width = `${canvasSize.width}px`;
+      canvas.style.height = `${canvasSize.height}px`;
+
+      host = createSceneHost(canvas, config, options, {
+        allowWorker,
+        onWorkerError: (error) => {
+          console.error('Spreadsheet worker failed:', error);
+          host.dispose();
+          container.removeChild(canvas);
+          mount(false);
+          window.alert(`The sheet stopped working in the background and was restarted, unsaved density was lost: ${error.message}`);
+        },
+      });
+      host.resize(canvasSize.width, canvasSize.height, window.devicePixelRatio || 1);
+      host.setViewport(hostViewportRef.current);
+      host.setImage(sceneImageRef.current);
+      host.setCells(cells);
+      host.setSelection(selectedCell);
+      hostRef.current = host;
+    };
+    mount(true);
 
-    // Clamp coordinates to image bounds
-    const clampedX = Math.max(0, Math.min(Math.floor(x), width - 1));
-    const clampedY = Math.max(0, Math.min(Math.floor(y), height - 1));
+    return () => {
+      host.dispose();
+      hostRef.current = null;
+      container.removeChild(canvas);
+    };
+  }, []);
 
-    // Calculate pixel index (4 bytes per pixel: RGBA)
-    const index = (clampedY * width + clampedX) * 4;
+  useEffect(() => {
+    hostRef.current?.setConfig(config);
+  }, [config]);
 
-    // Extract RGB values
-    const r = data[index];
-    const g = data[index + 1];
-    const b = data[index + 2];
+  // Logs record the brush as it was on the sheet, whatever the zoom was
+  useEffect(() => {
+    recorderRef.current?.setConfig(getSheetBrushConfig(config, zoom), performance.now());
+  }, [config, zoom]);
+
+  // Apply a new zoom, keeping the anchor point (or the middle of the view) in place
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current;
+    const previousZoom = appliedZoomRef.current;
+    appliedZoomRef.current = zoom;
+    zoomRef.current = zoom;
+    if (!scroller || zoom === previousZoom) return;
+
+    const { width, height } = latestRef.current.canvasSize;
+    const anchor = zoomAnchorRef.current ?? {
+      x: (HEADER_WIDTH + width) / 2,
+      y: (HEADER_HEIGHT + height) / 2,
+    };
+    zoomAnchorRef.current = null;
 
-    return `rgb(${r}, ${g}, ${b})`;
-  };
+    const sheetPoint = toSheetPoint(anchor.x, anchor.y, { ...scrollRef.current, zoom: previousZoom });
+    scroller.scrollLeft = sheetPoint.x * zoom - (anchor.x - HEADER_WIDTH);
+    scroller.scrollTop = sheetPoint.y * zoom - (anchor.y - HEADER_HEIGHT);
 
-  // Helper function to get cell color based on image pixel at cell center
-  const getCellColor = (
-    cell: SubdividedCell,
-    imageBounds: { x: number; y: number; width: number; height: number } | null
-  ): string | null => {
-    if (!imageDataRef.current || !imageDimensionsRef.current || !imageBounds) {
-      return null;
-    }
+    // Read back, the browser clamps to the scrollable range
+    const next = { x: scroller.scrollLeft, y: scroller.scrollTop };
+    scrollRef.current = next;
+    setScroll(next);
+    applyViewport({ ...next, zoom });
+  }, [zoom]);
 
-    // Calculate cell center point
-    const cellCenterX = cell.x + cell.width / 2;
-    const cellCenterY = cell.y + cell.height / 2;
-
-    // Check if cell center is within image bounds
-    if (
-      cellCenterX < imageBounds.x ||
-      cellCenterX > imageBounds.x + imageBounds.width ||
-      cellCenterY < imageBounds.y ||
-      cellCenterY > imageBounds.y + imageBounds.height
-    ) {
-      return null; // Cell is outside image
-    }
+  // Ctrl+wheel (and trackpad pinch, which browsers report as one) zooms
+  // Listened to natively, since React wheel listeners cannot prevent the page zooming
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      const rect = (containerRef.current ?? scroller).getBoundingClientRect();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      requestZoom(zoomRef.current * Math.exp(-delta * WHEEL_ZOOM_RATE), {
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+      });
+    };
 
-    // Map canvas coordinates to image pixel coordinates
-    const imageX = ((cellCenterX - imageBounds.x) / imageBounds.width) * imageDimensionsRef.current.width;
-    const imageY = ((cellCenterY - imageBounds.y) / imageBounds.height) * imageDimensionsRef.current.height;
+    scroller.addEventListener('wheel', handleWheel, { passive: false });
+    return () => scroller.removeEventListener('wheel', handleWheel);
+  }, []);
 
-    // Sample the pixel color
-    return samplePixel(imageDataRef.current, imageX, imageY);
-  };
+  // Holding Space turns dragging into panning, unless typing into a field
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  useEffect(() => {
+    hostRef.current?.setOptions(options);
+  }, [options]);
+
+  useEffect(() => {
+    hostRef.current?.setCells(cells);
+  }, [cells]);
+
+  useEffect(() => {
+    hostRef.current?.setSelection(selectedCell);
+  }, [selectedCell]);
+
+  // Scroll the selected cell into view, e.g. after Enter moves it below the window
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller || !selectedCell) return;
+
+    const { config, viewport } = latestRef.current;
+    const baseCellWidth = config.baseCellWidth * viewport.zoom;
+    const baseCellHeight = config.baseCellHeight * viewport.zoom;
+    const left = selectedCell.col * baseCellWidth;
+    const top = selectedCell.row * baseCellHeight;
+    const visibleWidth = scroller.clientWidth - HEADER_WIDTH;
+    const visibleHeight = scroller.clientHeight - HEADER_HEIGHT;
+
+    if (left < scroller.scrollLeft) {
+      scroller.scrollLeft = left;
+    } else if (left + baseCellWidth > scroller.scrollLeft + visibleWidth) {
+      scroller.scrollLeft = left + baseCellWidth - visibleWidth;
+    }
+    if (top < scroller.scrollTop) {
+      scroller.scrollTop = top;
+    } else if (top + baseCellHeight > scroller.scrollTop + visibleHeight) {
+      scroller.scrollTop = top + baseCellHeight - visibleHeight;
+    }
+  }, [selectedCell]);
 
   // Load inserted image and extract pixel data
   useEffect(() => {
+    let cancelled = false;
+
     if (insertedImage) {
       const img = new Image();
-      img.onload = () => {
-        setLoadedImage(img);
-
+      img.onload = async () => {
         // Create offscreen canvas to extract pixel data
         const offscreenCanvas = document.createElement('canvas');
         offscreenCanvas.width = img.width;
@@ -144,28 +361,34 @@ export const DensitySpreadsheet: React.FC<DensitySpreadsheetProps> = ({
           // Draw image on top of white background
           offscreenCtx.drawImage(img, 0, 0);
 
-          // Extract pixel data
-          const imageData = offscreenCtx.getImageData(0, 0, img.width, img.height);
-          imageDataRef.current = imageData;
-          imageDimensionsRef.current = { width: img.width, height: img.height };
+          // Extract pixel data, plus a bitmap of the original for the debug overlay
+          const data = offscreenCtx.getImageData(0, 0, img.width, img.height);
+          const bitmap = await createImageBitmap(img);
+          if (cancelled) return;
+
+          sceneImageRef.current = { data, bitmap };
+          hostRef.current?.setImage(sceneImageRef.current);
         }
       };
       img.src = insertedImage;
     } else {
-      setLoadedImage(null);
-      imageDataRef.current = null;
-      imageDimensionsRef.current = null;
+      sceneImageRef.current = null;
+      hostRef.current?.setImage(null);
     }
+
+    return () => {
+      cancelled = true;
+    };
   }, [insertedImage]);
 
-  // Calculate canvas size based on container
+  // Calculate canvas size from the scroll area, without its scrollbars
   useEffect(() => {
     const updateSize = () => {
-      if (containerRef.current) {
-        const rect = containerRef.current.getBoundingClientRect();
+      if (scrollerRef.current) {
+        const { clientWidth, clientHeight } = scrollerRef.current;
         setCanvasSize({
-          width: width || rect.width,
-          height: height || rect.height,
+          width: width || clientWidth,
+          height: height || clientHeight,
         });
       }
     };
@@ -175,408 +398,356 @@ export const DensitySpreadsheet: React.FC<DensitySpreadsheetProps> = ({
     return () => window.removeEventListener('resize', updateSize);
   }, [width, height]);
 
-  // Calculate how many columns/rows fit in the canvas
-  const getGridDimensions = () => {
-    const availableWidth = canvasSize.width - HEADER_WIDTH;
-    const availableHeight = canvasSize.height - HEADER_HEIGHT;
+  // The host is told right away, so samples that follow land on the scrolled sheet
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const next = { x: e.currentTarget.scrollLeft, y: e.currentTarget.scrollTop };
+    scrollRef.current = next;
+    applyViewport({ ...next, zoom: appliedZoomRef.current });
+    setScroll(next);
+  };
 
-    const columns = Math.ceil(availableWidth / config.baseCellWidth);
-    const rows = Math.ceil(availableHeight / config.baseCellHeight);
+  const applyViewport = (next: Viewport) => {
+    hostViewportRef.current = next;
+    hostRef.current?.setViewport(next);
+  };
 
-    return { columns, rows };
+  // Ask the window for a new zoom, applied around anchor (canvas coordinates)
+  const requestZoom = (next: number, anchor: Point) => {
+    const clamped = clampZoom(next);
+    if (clamped === zoomRef.current || !onZoomChangeRef.current) return;
+    zoomRef.current = clamped;
+    zoomAnchorRef.current = anchor;
+    onZoomChangeRef.current(clamped);
   };
 
-  // Generate base grid cells (offset by headers)
-  const getBaseCells = (): SubdividedCell[] => {
-    const cells: SubdividedCell[] = [];
-    const { columns, rows } = getGridDimensions();
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < columns; col++) {
-        cells.push({
-          x: HEADER_WIDTH + col * config.baseCellWidth,
-          y: HEADER_HEIGHT + row * config.baseCellHeight,
-          width: config.baseCellWidth,
-          height: config.baseCellHeight,
-          level: 0,
-          baseX: col,
-          baseY: row,
-        });
-      }
-    }
-    return cells;
+  // Move the view by a pointer movement, the sheet follows the pointer
+  const panBy = (dx: number, dy: number) => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    scroller.scrollLeft -= dx;
+    scroller.scrollTop -= dy;
+    scrollRef.current = { x: scroller.scrollLeft, y: scroller.scrollTop };
   };
 
-  // Handle mouse move
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const getCanvasPoint = (e: { clientX: number; clientY: number }): Point => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : { x: 0, y: 0 };
+  };
 
-    const rect = canvas.getBoundingClientRect();
-    const newPos = {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
+  // Distance between the two touches of a pinch, and the point between them
+  const measurePinch = () => {
+    const [a, b] = [...touchesRef.current.values()];
+    return {
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
     };
+  };
 
-    const now = performance.now();
-
-    // Calculate velocity and interpolate if we have a previous position
-    if (lastMousePosRef.current) {
-      const distance = calculateDistance(newPos, lastMousePosRef.current);
-      const deltaTime = (now - lastMouseMoveTimeRef.current) / 1000;
-
-      // Velocity in pixels per second
-      const velocity = deltaTime > 0 ? distance / deltaTime : 0;
-
-      // Smooth velocity with exponential moving average
-      setCursorVelocity((prev) => prev * 0.7 + velocity * 0.3);
+  // Pan or pinch instead of painting, true if the event was used for that
+  const handleViewGesture = (e: React.PointerEvent<HTMLDivElement>): boolean => {
+    const pan = panRef.current;
+    if (pan && pan.pointerId === e.pointerId) {
+      panBy(e.clientX - pan.x, e.clientY - pan.y);
+      panRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+      return true;
+    }
 
-      // Calculate step size for interpolation based on influence radius and interpolation density
-      const stepSize = config.influenceRadius / (4 * config.interpolationDensity);
+    if (e.pointerType !== 'touch' || !touchesRef.current.has(e.pointerId)) {
+      return false;
+    }
+    touchesRef.current.set(e.pointerId, getCanvasPoint(e));
+    const pinch = pinchRef.current;
+    if (!pinch || touchesRef.current.size !== 2) {
+      return pinchedPointersRef.current.has(e.pointerId);
+    }
 
-      // Interpolate points between last and current position
-      const interpolated = interpolatePoints(lastMousePosRef.current, newPos, stepSize);
+    const next = measurePinch();
+    panBy(next.center.x - pinch.center.x, next.center.y - pinch.center.y);
+    if (pinch.distance > 0) {
+      requestZoom(zoomRef.current * (next.distance / pinch.distance), next.center);
+    }
+    pinchRef.current = next;
+    return true;
+  };
 
-      // Add interpolated points with timestamps
-      const timestampedPoints: TimestampedPoint[] = interpolated.map(p => ({
-        ...p,
-        timestamp: now,
-      }));
+  // Resize the canvas element and its backing store
+  useEffect(() => {
+    const canvas = containerRef.current?.querySelector('canvas');
+    if (canvas) {
+      canvas.style.width = `${canvasSize.width}px`;
+      canvas.style.height = `${canvasSize.height}px`;
+    }
+    hostRef.current?.resize(canvasSize.width, canvasSize.height, window.devicePixelRatio || 1);
+  }, [canvasSize.width, canvasSize.height]);
+
+  // Handle pointer move (mouse, touch and pen)
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (!container || handleViewGesture(e) || spaceHeld) return;
+
+    // Right button, pen eraser button or Alt erase, same as the eraser toggle
+    const erasing = eraser || e.altKey || (e.buttons & (2 | 32)) !== 0;
+    const isPen = e.pointerType === 'pen';
+
+    // Samples the browser merged into this event since the last frame
+    const nativeEvent = e.nativeEvent;
+    const coalesced = nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = coalesced.length > 0 ? coalesced : [nativeEvent];
+
+    const rect = container.getBoundingClientRect();
+    for (const event of events) {
+      const sample: InputSample = {
+        x: event.clientX - rect.left,
+        y: event.clientY - rect.top,
+        strength: erasing ? -1 : 1,
+        pointerId: e.pointerId,
+        timestamp: event.timeStamp,
+      };
 
-      // Add to existing interpolated points
-      interpolatedPointsRef.current.push(...timestampedPoints);
+      // Only pens report meaningful pressure and tilt
+      if (isPen) {
+        sample.pressure = event.pressure;
+        sample.tiltX = event.tiltX;
+        sample.tiltY = event.tiltY;
+      }
 
-      // Filter out points older than 100ms to prevent memory buildup
-      interpolatedPointsRef.current = filterRecentPoints(
-        interpolatedPointsRef.current,
-        100, // 100ms max age
-        now
-      );
-    } else {
-      // First mouse event - just add current position
-      interpolatedPointsRef.current.push({
-        ...newPos,
-        timestamp: now,
+      hostRef.current?.addSample(sample);
+      // Logs hold positions on the unscrolled, unzoomed sheet, so replay does not depend on the view
+      // Converted like the scene does, the state lags behind while a gesture scrolls or zooms
+      const sheetPoint = toSheetPoint(sample.x, sample.y, hostViewportRef.current);
+      recorderRef.current?.addSample({
+        ...sample,
+        x: sheetPoint.x + HEADER_WIDTH,
+        y: sheetPoint.y + HEADER_HEIGHT,
       });
     }
 
-    lastMousePosRef.current = newPos;
-    lastMouseMoveTimeRef.current = now;
-    setMousePos(newPos);
+    // Hovering brushes the sheet too, but only a pressed button, pen or finger is an edit
+    if (e.buttons !== 0) {
+      onPaint?.();
+    }
   };
 
-  // Handle mouse leave
-  const handleMouseLeave = () => {
-    setMousePos(null);
-    setCursorVelocity(0);
-    lastMousePosRef.current = null;
-    interpolatedPointsRef.current = []; // Clear interpolated points
+  // Base cell under a pointer event, null over the headers
+  const getEventCell = (e: React.MouseEvent<HTMLDivElement>): CellAddress | null => {
+    const container = containerRef.current;
+    if (!container) return null;
+    const rect = container.getBoundingClientRect();
+    return getCellAtPoint(e.clientX - rect.left, e.clientY - rect.top, hostViewportRef.current, config);
   };
 
-  // Continuous render loop with density updates
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Handle device pixel ratio for crisp rendering
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = canvasSize.width * dpr;
-    canvas.height = canvasSize.height * dpr;
-    canvas.style.width = `${canvasSize.width}px`;
-    canvas.style.height = `${canvasSize.height}px`;
-    ctx.scale(dpr, dpr);
-
-    const render = (currentTime: number) => {
-      // Calculate delta time in seconds
-      const deltaTime = (currentTime - lastFrameTimeRef.current) / 1000;
-      lastFrameTimeRef.current = currentTime;
-
-      // Cap delta time to prevent huge jumps (e.g., when tab is inactive)
-      const cappedDeltaTime = Math.min(deltaTime, 0.1);
-
-      // Decay velocity if mouse hasn't moved recently (> 50ms)
-      const timeSinceMouseMove = (currentTime - lastMouseMoveTimeRef.current) / 1000;
-      if (timeSinceMouseMove > 0.05) {
-        // Very rapidly decay velocity when mouse is still
-        setCursorVelocity((prev) => Math.max(0, prev * 0.7));
-      }
-
-      // Clear canvas
-      clearCanvas(ctx, canvasSize.width, canvasSize.height);
-
-      // Get dynamic grid dimensions
-      const { columns, rows } = getGridDimensions();
-
-      // Draw headers first (they stay static)
-      drawCornerHeader(ctx, HEADER_WIDTH, HEADER_HEIGHT);
-      drawColumnHeaders(ctx, columns, config.baseCellWidth, HEADER_WIDTH, HEADER_HEIGHT);
-      drawRowHeaders(ctx, rows, config.baseCellHeight, HEADER_WIDTH, HEADER_HEIGHT);
-
-      const baseCells = getBaseCells();
-
-      // Calculate image bounds for cell coloring (used in normal mode)
-      let imageBounds: { x: number; y: number; width: number; height: number } | null = null;
-      if (loadedImage && !debugMode) {
-        const padding = 60;
-        const availableWidth = canvasSize.width - (2 * padding);
-        const availableHeight = canvasSize.height - (2 * padding);
-
-        const imageAspect = loadedImage.width / loadedImage.height;
-        const availableAspect = availableWidth / availableHeight;
-
-        let baseWidth: number;
-        let baseHeight: number;
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Middle button, or any button while Space is held, drags the view
+    if (e.button === 1 || (spaceHeld && e.button === 0)) {
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      panRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+      setPanning(true);
+      hostRef.current?.endStroke(e.pointerId);
+      recorderRef.current?.endStroke(performance.now(), e.pointerId);
+      return;
+    }
 
-        if (imageAspect > availableAspect) {
-          baseWidth = availableWidth;
-          baseHeight = availableWidth / imageAspect;
-        } else {
-          baseHeight = availableHeight;
-          baseWidth = availableHeight * imageAspect;
+    // A second finger turns painting into a pinch
+    if (e.pointerType === 'touch') {
+      touchesRef.current.set(e.pointerId, getCanvasPoint(e));
+      if (touchesRef.current.size === 2) {
+        for (const pointerId of touchesRef.current.keys()) {
+          pinchedPointersRef.current.add(pointerId);
+          hostRef.current?.endStroke(pointerId);
+          recorderRef.current?.endStroke(performance.now(), pointerId);
         }
-
-        const drawWidth = baseWidth * imageScale;
-        const drawHeight = baseHeight * imageScale;
-
-        imageBounds = {
-          x: (canvasSize.width - drawWidth) / 2,
-          y: (canvasSize.height - drawHeight) / 2,
-          width: drawWidth,
-          height: drawHeight,
-        };
+        pinchRef.current = measurePinch();
+        return;
       }
+    }
 
-      // Update densities and render
-      const newDensities = new Map(cellDensities);
-
-      // Collect all subdivision lines and final cells
-      const allSubdivisionLines: SubdivisionLine[] = [];
-      const finalCellsWithColors: Array<{ cell: CellBounds; imageColor: string | null }> = [];
-
-      baseCells.forEach((baseCell) => {
-        const cellKey = `${baseCell.baseX},${baseCell.baseY}`;
-        const now = performance.now();
-
-        // Get current density state or initialize it
-        const currentState = newDensities.get(cellKey) || {
-          density: 0,
-          lastPaintedTime: now,
-        };
-
-        // Get current interpolated points (filter again to ensure freshness)
-        const activePoints = filterRecentPoints(interpolatedPointsRef.current, 100, now);
-
-        // Check if cursor is actually painting THIS cell (within influence radius)
-        let isPaintingThisCell = false;
-        if (activePoints.length > 0) {
-          const cellCenter = getCellCenter(baseCell);
-          for (const point of activePoints) {
-            const distance = calculateDistance(point, cellCenter);
-            if (distance < config.influenceRadius) {
-              isPaintingThisCell = true;
-              break;
-            }
-          }
-        }
-
-        // Update density for this cell using all interpolated points
-        const newDensity = updateCellDensity(
-          currentState.density,
-          baseCell,
-          activePoints, // Pass array of points instead of single point
-          cappedDeltaTime,
-          config,
-          cursorVelocity,
-          currentState.lastPaintedTime,
-          now
-        );
-
-        // Update state - reset timestamp ONLY if cursor is actually painting this cell
-        newDensities.set(cellKey, {
-          density: newDensity,
-          lastPaintedTime: isPaintingThisCell ? now : currentState.lastPaintedTime,
-        });
-
-        // Calculate subdivision level from density
-        const subdivisionLevel = densityToSubdivisionLevel(
-          newDensity,
-          config.maxSubdivisionLevel
-        );
-
-        // Subdivide cell if needed
-        if (subdivisionLevel > 0) {
-          // Get cells at each subdivision level
-          const cellsByLevel = getCellsAtEachLevel(baseCell, subdivisionLevel);
-
-          if (debugMode) {
-            // Debug mode: just draw final subdivided cells with heat map
-            const finalCells = subdivideCell(baseCell, subdivisionLevel);
-            finalCells.forEach((subCell) => {
-              const heatColor = densityToHeatColor(newDensity);
-              drawCell(ctx, subCell, heatColor, '#808080', subdivisionLevel);
-            });
-          } else {
-            // Normal mode: collect subdivision lines and final cells
-            const lines = getSubdivisionLines(baseCell, subdivisionLevel);
-            allSubdivisionLines.push(...lines);
-
-            // Get final cells for filling with image colors
-            const finalCells = subdivideCell(baseCell, subdivisionLevel);
-            finalCells.forEach((cell) => {
-              // Convert CellBounds to SubdividedCell for getCellColor
-              const subdivCell: SubdividedCell = {
-                ...cell,
-                level: subdivisionLevel,
-                baseX: baseCell.baseX,
-                baseY: baseCell.baseY,
-              };
-              const imageColor = getCellColor(subdivCell, imageBounds);
-              finalCellsWithColors.push({ cell, imageColor });
-            });
-          }
-        } else {
-          // No subdivision - draw base cell
-          if (debugMode) {
-            // Debug mode: color by density (heat map)
-            const heatColor = densityToHeatColor(newDensity);
-            drawCell(ctx, baseCell, heatColor, '#808080', 0);
-          } else {
-            // Normal mode: base cells stay white with base borders
-            const borderColor = calculateImageBorderColor(0, config.maxSubdivisionLevel);
-            drawCell(ctx, baseCell, '#ffffff', borderColor, 0);
-          }
-        }
-
-      });
+    const cell = e.button === 0 ? getEventCell(e) : null;
+    if (cell) {
+      onSelectCell?.(cell);
+    }
+  };
 
-      // Draw all collected subdivision lines and fill cells (normal mode only)
-      if (!debugMode) {
-        // First, fill the final cells with image colors
-        finalCellsWithColors.forEach(({ cell, imageColor }) => {
-          if (imageColor) {
-            ctx.fillStyle = imageColor;
-            ctx.fillRect(cell.x, cell.y, cell.width, cell.height);
-          }
-        });
+  // Middle-click autoscroll would fight the pan
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button === 1) e.preventDefault();
+  };
 
-        // Then draw base cell borders (level 0)
-        baseCells.forEach((baseCell) => {
-          const borderColor = calculateImageBorderColor(0, config.maxSubdivisionLevel);
-          ctx.strokeStyle = borderColor;
-          ctx.lineWidth = 0.5;
-          ctx.strokeRect(baseCell.x + 0.25, baseCell.y + 0.25, baseCell.width - 0.5, baseCell.height - 0.5);
-        });
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const cell = getEventCell(e);
+    if (cell && onEditCell) {
+      onSelectCell?.(cell);
+      setEditingCell(cell);
+    }
+  };
 
-        // Finally draw subdivision lines, deduplicated by unique line key
-        const drawnLines = new Set<string>();
-        allSubdivisionLines.forEach((line) => {
-          const lineKey = `${line.x1.toFixed(2)},${line.y1.toFixed(2)},${line.x2.toFixed(2)},${line.y2.toFixed(2)}`;
-
-          if (!drawnLines.has(lineKey)) {
-            const lineColor = calculateImageBorderColor(line.level, config.maxSubdivisionLevel);
-            ctx.strokeStyle = lineColor;
-            ctx.lineWidth = 0.5;
-            ctx.beginPath();
-            ctx.moveTo(line.x1, line.y1);
-            ctx.lineTo(line.x2, line.y2);
-            ctx.stroke();
-            drawnLines.add(lineKey);
-          }
-        });
-      }
+  // Enter moves on to the cell below, like Excel
+  const handleEditCommit = (input: string) => {
+    if (!editingCell) return;
+    setEditingCell(null);
+    onEditCell?.(editingCell, input);
 
-      // Update state with new densities
-      setCellDensities(newDensities);
-
-      // Draw inserted image (debug mode only)
-      if (debugMode && loadedImage) {
-        const padding = 60;
-        const availableWidth = canvasSize.width - (2 * padding);
-        const availableHeight = canvasSize.height - (2 * padding);
-
-        // Calculate scaling to fit within available space while maintaining aspect ratio
-        const imageAspect = loadedImage.width / loadedImage.height;
-        const availableAspect = availableWidth / availableHeight;
-
-        let baseWidth: number;
-        let baseHeight: number;
-
-        if (imageAspect > availableAspect) {
-          // Image is wider than available space - fit to width
-          baseWidth = availableWidth;
-          baseHeight = availableWidth / imageAspect;
-        } else {
-          // Image is taller than available space - fit to height
-          baseHeight = availableHeight;
-          baseWidth = availableHeight * imageAspect;
-        }
-
-        // Apply scale from center
-        const drawWidth = baseWidth * imageScale;
-        const drawHeight = baseHeight * imageScale;
+    const below = { col: editingCell.col, row: editingCell.row + 1 };
+    if (below.row < config.rows) {
+      onSelectCell?.(below);
+    }
+  };
 
-        // Center the image (always centered regardless of scale)
-        const drawX = (canvasSize.width - drawWidth) / 2;
-        const drawY = (canvasSize.height - drawHeight) / 2;
+  // Right-drag erases, so keep the browser menu out of the way
+  const handleContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+  };
 
-        // Draw with opacity
-        ctx.globalAlpha = 0.5;
-        ctx.drawImage(loadedImage, drawX, drawY, drawWidth, drawHeight);
-        ctx.globalAlpha = 1.0;
-      }
+  // Handle pointer leaving the sheet, or a finger lifting off it
+  const handlePointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (panRef.current?.pointerId === e.pointerId) {
+      // A captured pan keeps going when the pointer leaves the sheet
+      if (e.type === 'pointerleave') return;
+      panRef.current = null;
+      setPanning(false);
+      return;
+    }
 
-      // Draw mouse cursor position (debug)
-      if (debugMode && mousePos) {
-        ctx.fillStyle = 'rgba(255, 0, 0, 0.5)';
-        ctx.beginPath();
-        ctx.arc(mousePos.x, mousePos.y, 5, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Draw influence radius
-        ctx.strokeStyle = 'rgba(255, 0, 0, 0.3)';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.arc(mousePos.x, mousePos.y, config.influenceRadius, 0, Math.PI * 2);
-        ctx.stroke();
+    if (e.pointerType === 'touch' && e.type !== 'pointerleave') {
+      touchesRef.current.delete(e.pointerId);
+      if (touchesRef.current.size < 2) {
+        pinchRef.current = null;
       }
+      if (pinchedPointersRef.current.delete(e.pointerId)) return;
+    }
 
-      animationFrameRef.current = requestAnimationFrame(render);
-    };
+    if (e.type === 'pointerup' && e.pointerType !== 'touch') return;
 
-    animationFrameRef.current = requestAnimationFrame(render);
+    hostRef.current?.endStroke(e.pointerId);
+    recorderRef.current?.endStroke(performance.now(), e.pointerId);
+  };
 
-    // Cleanup
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+  useImperativeHandle(ref, () => ({
+    startRecording: () => {
+      const { config, canvasSize } = latestRef.current;
+      recorderRef.current = new StrokeRecorder(
+        getSheetBrushConfig(config, hostViewportRef.current.zoom),
+        canvasSize,
+        performance.now()
+      );
+    },
+    stopRecording: () => {
+      const log = recorderRef.current?.finish() ?? null;
+      recorderRef.current = null;
+      return log;
+    },
+    replay: (log, speed) => {
+      hostRef.current?.replay(log, speed);
+
+      // Replay only simulates the cells the strokes reach, so bring them into view
+      const scroller = scrollerRef.current;
+      const strokes = getStrokeBounds(log);
+      if (!scroller || !strokes) return;
+
+      const { x, y, zoom } = hostViewportRef.current;
+      const { width, height } = latestRef.current.canvasSize;
+      const visibleWidth = width - HEADER_WIDTH;
+      const visibleHeight = height - HEADER_HEIGHT;
+      const inView =
+        strokes.x * zoom >= x &&
+        strokes.y * zoom >= y &&
+        (strokes.x + strokes.width) * zoom <= x + visibleWidth &&
+        (strokes.y + strokes.height) * zoom <= y + visibleHeight;
+      if (!inView) {
+        scroller.scrollLeft = (strokes.x + strokes.width / 2) * zoom - visibleWidth / 2;
+        scroller.scrollTop = (strokes.y + strokes.height / 2) * zoom - visibleHeight / 2;
       }
-    };
-  }, [mousePos, canvasSize.width, canvasSize.height, config, debugMode, cellDensities, cursorVelocity, loadedImage, imageScale]);
+    },
+    setDensities: (values) => {
+      hostRef.current?.setDensities(values);
+    },
+    snapshotDensity: () => {
+      const host = hostRef.current;
+      return host ? host.snapshotDensity() : Promise.reject(new Error('Spreadsheet is not ready'));
+    },
+    restoreDensity: (config, snapshot) => {
+      hostRef.current?.restoreDensity(config, snapshot);
+    },
+    exportSheet: (format, options) => {
+      const host = hostRef.current;
+      return host ? host.exportSheet(format, options) : Promise.reject(new Error('Spreadsheet is not ready'));
+    },
+    exportData: (options) => {
+      const host = hostRef.current;
+      return host ? host.exportData(options) : Promise.reject(new Error('Spreadsheet is not ready'));
+    },
+    startCapture: (options) => {
+      hostRef.current?.startCapture(options);
+    },
+    stopCapture: () => {
+      const host = hostRef.current;
+      return host ? host.stopCapture() : Promise.reject(new Error('Spreadsheet is not ready'));
+    },
+    setVideoFrame: (image) => {
+      const previous = videoFrameRef.current;
+      videoFrameRef.current = image;
+      sceneImageRef.current = image;
+      hostRef.current?.setImage(image);
+      // Frames keep coming while a video plays, so the bitmap of the last one is freed right away
+      // A worker scene closes only its own copy, this one is closed here
+      if (previous && previous !== image) {
+        previous.bitmap.close();
+      }
+    },
+  }), []);
 
   return (
-    <div
-      ref={containerRef}
-      style={{
-        width: '100%',
-        height: '100%',
-        overflow: 'hidden',
-      }}
-    >
-      <canvas
-        ref={canvasRef}
-        onMouseMove={handleMouseMove}
-        onMouseLeave={handleMouseLeave}
+    <SheetScroller ref={scrollerRef} onScroll={handleScroll}>
+      <div
         style={{
-          display: 'block',
-          cursor: 'crosshair',
-          backgroundColor: '#ffffff',
+          position: 'relative',
+          // At least the canvas size, so a small sheet does not scroll past its end
+          width: `${Math.max(canvasSize.width, HEADER_WIDTH + config.columns * config.baseCellWidth * zoom)}px`,
+          height: `${Math.max(canvasSize.height, HEADER_HEIGHT + config.rows * config.baseCellHeight * zoom)}px`,
         }}
-      />
-    </div>
+      >
+        <div
+          ref={containerRef}
+          onPointerMove={handlePointerMove}
+          onPointerDown={handlePointerDown}
+          onMouseDown={handleMouseDown}
+          onPointerLeave={handlePointerEnd}
+          onPointerUp={handlePointerEnd}
+          onPointerCancel={handlePointerEnd}
+          onDoubleClick={handleDoubleClick}
+          onContextMenu={handleContextMenu}
+          style={{
+            position: 'sticky',
+            top: 0,
+            left: 0,
+            width: `${canvasSize.width}px`,
+            height: `${canvasSize.height}px`,
+            overflow: 'hidden',
+            cursor: panning ? 'grabbing' : spaceHeld ? 'grab' : 'crosshair',
+            touchAction: 'none', // Touch paints instead of scrolling the page
+          }}
+        />
+        {/* Laid out on the whole sheet, so the editor scrolls along with its cell */}
+        {editingCell && (
+          <CellEditor
+            key={`${editingCell.col}:${editingCell.row}`}
+            bounds={{
+              x: HEADER_WIDTH + editingCell.col * config.baseCellWidth * zoom,
+              y: HEADER_HEIGHT + editingCell.row * config.baseCellHeight * zoom,
+              width: config.baseCellWidth * zoom,
+              height: config.baseCellHeight * zoom,
+            }}
+            fontSize={HEADER_FONT_SIZE * zoom}
+            initialValue={
+              cells.find((entry) => entry.col === editingCell.col && entry.row === editingCell.row)?.input ?? ''
+            }
+            onCommit={handleEditCommit}
+            onCancel={() => setEditingCell(null)}
+          />
+        )}
+      </div>
+    </SheetScroller>
   );
-};
+});
 
 export default DensitySpreadsheet;
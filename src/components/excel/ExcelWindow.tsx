@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import {
   Window,
   WindowHeader,
@@ -7,12 +7,48 @@ import {
   Button,
   MenuList,
   MenuListItem,
+  Separator,
+  Select,
 } from "react95";
-import { DensitySpreadsheet } from "./DensitySpreadsheet";
+import { DensitySpreadsheet, type DensitySpreadsheetHandle } from "./DensitySpreadsheet";
 import { DensityControls } from "./DensityControls";
 import { Checkmark } from "./Checkmark";
+import { ExportDialog } from "./ExportDialog";
+import { DataExportDialog } from "./DataExportDialog";
+import { DataImportDialog } from "./DataImportDialog";
+import { GifRecorder } from "./GifRecorder";
+import { FormulaBar } from "./FormulaBar";
+import { VideoPlayer } from "./VideoPlayer";
 import { createDefaultConfig } from "../../utils/density";
-import type { Config } from "../../types/spreadsheet";
+import { ZOOM_PRESETS } from "../../utils/canvas";
+import { downloadBlob, downloadJson, readFileAsText } from "../../utils/files";
+import { parseStrokeLog, type StrokeLog } from "../../utils/strokeLog";
+import { getPresetPalette, parsePaletteFile } from "../../utils/palette";
+import { parseDataTable, normalizeCellValues } from "../../utils/dataImport";
+import {
+  WORKBOOK_VERSION,
+  WORKBOOK_EXTENSION,
+  getWorkbookName,
+  parseWorkbook,
+  type Workbook,
+} from "../../utils/workbook";
+import type {
+  Config,
+  RendererKind,
+  SamplingMode,
+  PaletteKind,
+  DitherMode,
+  Rgb,
+  ExportFormat,
+  SheetExportOptions,
+  DataExportOptions,
+  DataNormalization,
+  CellValue,
+  CellAddress,
+  CellEntry,
+} from "../../types/spreadsheet";
+
+const isSameCell = (a: CellAddress, b: CellAddress) => a.col === b.col && a.row === b.row;
 
 interface ExcelWindowProps {
   onClose: () => void;
@@ -30,20 +66,54 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
   onImageScaleChange,
 }) => {
   const [debugMode, setDebugMode] = useState(false);
+  const [renderer, setRenderer] = useState<RendererKind>("canvas2d");
+  const [sampling, setSampling] = useState<SamplingMode>("center");
+  const [paletteKind, setPaletteKind] = useState<PaletteKind>("full");
+  const [customPalette, setCustomPalette] = useState<{ name: string; colors: Rgb[] } | null>(null);
+  const [dither, setDither] = useState<DitherMode>("none");
   const [showControls, setShowControls] = useState(false);
+  const [showFileMenu, setShowFileMenu] = useState(false);
   const [showViewMenu, setShowViewMenu] = useState(false);
   const [showInsertMenu, setShowInsertMenu] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [eraser, setEraser] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [insertedVideo, setInsertedVideo] = useState<{ url: string; name: string } | null>(null);
+  const [lastRecording, setLastRecording] = useState<StrokeLog | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat | null>(null);
+  const [showDataExport, setShowDataExport] = useState(false);
+  const [importedData, setImportedData] = useState<{ fileName: string; cells: CellValue[] } | null>(null);
+  const [documentName, setDocumentName] = useState("Book1");
+  const [savedFilename, setSavedFilename] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [cells, setCells] = useState<CellEntry[]>([]);
+  const [selectedCell, setSelectedCell] = useState<CellAddress | null>(null);
+  const fileButtonRef = useRef<HTMLButtonElement>(null);
+  const fileMenuRef = useRef<HTMLDivElement>(null);
   const viewButtonRef = useRef<HTMLButtonElement>(null);
   const viewMenuRef = useRef<HTMLDivElement>(null);
   const insertButtonRef = useRef<HTMLButtonElement>(null);
   const insertMenuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dataInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const replaySpeedRef = useRef(1);
+  const workbookInputRef = useRef<HTMLInputElement>(null);
+  const untitledCountRef = useRef(1);
+  const spreadsheetRef = useRef<DensitySpreadsheetHandle>(null);
   const [densityConfig, setDensityConfig] = useState<Config>(() => {
     return createDefaultConfig();
   });
 
   const handleConfigChange = (changes: Partial<Config>) => {
     setDensityConfig((prev) => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const handleImageScaleChange = (scale: number) => {
+    onImageScaleChange(scale);
+    setIsDirty(true);
   };
 
   const handleImageInsert = () => {
@@ -54,22 +124,302 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type.startsWith("image/")) {
+      closeVideo();
       const reader = new FileReader();
       reader.onload = (e) => {
         const result = e.target?.result;
         if (typeof result === "string") {
           onImageChange(result);
+          setIsDirty(true);
         }
       };
       reader.readAsDataURL(file);
     }
   };
 
+  const handleVideoInsert = () => {
+    setShowInsertMenu(false);
+    videoInputRef.current?.click();
+  };
+
+  // A video takes the place of the inserted picture; it is not saved with the workbook
+  const handleVideoFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("video/")) {
+      window.alert(`${file.name} is not a video file`);
+      return;
+    }
+
+    if (insertedImage) {
+      onImageChange(null);
+      setIsDirty(true);
+    }
+    setInsertedVideo({ url: URL.createObjectURL(file), name: file.name });
+  };
+
+  const closeVideo = () => {
+    if (!insertedVideo) return;
+    setInsertedVideo(null);
+    spreadsheetRef.current?.setVideoFrame(null);
+  };
+
+  // Free the video file once it is replaced or removed
+  useEffect(() => {
+    if (!insertedVideo) return;
+    return () => URL.revokeObjectURL(insertedVideo.url);
+  }, [insertedVideo]);
+
+  const handleDataInsert = () => {
+    setShowInsertMenu(false);
+    dataInputRef.current?.click();
+  };
+
+  const handleDataFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const cells = parseDataTable(await readFileAsText(file));
+      setImportedData({ fileName: file.name, cells });
+    } catch (error) {
+      console.error("Failed to read data:", error);
+      window.alert(`Could not insert data: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDataImport = (normalization: DataNormalization, persistent: boolean) => {
+    if (!importedData) return;
+    setImportedData(null);
+
+    // Imported cells count as just painted, so they hold until the config change arrives
+    if (persistent && !densityConfig.persistent) {
+      handleConfigChange({ persistent: true });
+    }
+    spreadsheetRef.current?.setDensities(normalizeCellValues(importedData.cells, normalization));
+    setIsDirty(true);
+  };
+
+  // Empty input clears the cell
+  const handleCellEdit = (cell: CellAddress, input: string) => {
+    setCells((prev) => {
+      const existing = prev.find((entry) => isSameCell(entry, cell));
+      if (!input.trim()) {
+        return prev.filter((entry) => entry !== existing);
+      }
+      return existing
+        ? prev.map((entry) => (entry === existing ? { ...entry, input } : entry))
+        : [...prev, { col: cell.col, row: cell.row, input }];
+    });
+    setIsDirty(true);
+  };
+
+  const handleDrivesDensityChange = (drivesDensity: boolean) => {
+    if (!selectedCell) return;
+    setCells((prev) =>
+      prev.map((entry) => (isSameCell(entry, selectedCell) ? { ...entry, drivesDensity } : entry))
+    );
+    setIsDirty(true);
+  };
+
+  const handleToggleRecording = () => {
+    setShowFileMenu(false);
+    if (isRecording) {
+      setLastRecording(spreadsheetRef.current?.stopRecording() ?? null);
+      setIsRecording(false);
+    } else {
+      spreadsheetRef.current?.startRecording();
+      setIsRecording(true);
+    }
+  };
+
+  const handleSaveRecording = () => {
+    setShowFileMenu(false);
+    if (lastRecording) {
+      downloadJson(lastRecording, "recording.strokes.json");
+    }
+  };
+
+  const confirmDiscardChanges = () =>
+    !isDirty || window.confirm(`Discard unsaved changes to ${documentName}?`);
+
+  const handleNewWorkbook = () => {
+    setShowFileMenu(false);
+    if (!confirmDiscardChanges()) return;
+
+    const config = createDefaultConfig();
+    setDensityConfig(config);
+    onImageChange(null);
+    onImageScaleChange(1);
+    closeVideo();
+    setCells([]);
+    setSelectedCell(null);
+    spreadsheetRef.current?.restoreDensity(config, null);
+
+    untitledCountRef.current += 1;
+    setDocumentName(`Book${untitledCountRef.current}`);
+    setSavedFilename(null);
+    setIsDirty(false);
+  };
+
+  const handleOpenWorkbook = () => {
+    setShowFileMenu(false);
+    if (!confirmDiscardChanges()) return;
+    workbookInputRef.current?.click();
+  };
+
+  const handleWorkbookFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const workbook = parseWorkbook(await readFileAsText(file));
+      setDensityConfig(workbook.config);
+      onImageChange(workbook.image);
+      onImageScaleChange(workbook.imageScale);
+      closeVideo();
+      setCells(workbook.cells);
+      setSelectedCell(null);
+      spreadsheetRef.current?.restoreDensity(workbook.config, workbook.density);
+
+      setDocumentName(getWorkbookName(file.name));
+      setSavedFilename(file.name);
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Failed to open workbook:", error);
+      window.alert(`Could not open workbook: ${(error as Error).message}`);
+    }
+  };
+
+  const saveWorkbook = async (filename: string) => {
+    try {
+      const density = (await spreadsheetRef.current?.snapshotDensity()) ?? null;
+      const workbook: Workbook = {
+        version: WORKBOOK_VERSION,
+        savedAt: new Date().toISOString(),
+        config: densityConfig,
+        image: insertedImage,
+        imageScale,
+        cells,
+        density,
+      };
+      downloadJson(workbook, filename);
+
+      setDocumentName(getWorkbookName(filename));
+      setSavedFilename(filename);
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Failed to save workbook:", error);
+      window.alert(`Could not save workbook: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSaveWorkbookAs = () => {
+    setShowFileMenu(false);
+    const name = window.prompt("Save workbook as:", documentName)?.trim();
+    if (!name) return;
+    saveWorkbook(name.endsWith(WORKBOOK_EXTENSION) ? name : `${name}${WORKBOOK_EXTENSION}`);
+  };
+
+  // Saving again downloads under the same name, the browser cannot overwrite the file
+  const handleSaveWorkbook = () => {
+    setShowFileMenu(false);
+    if (savedFilename) {
+      saveWorkbook(savedFilename);
+    } else {
+      handleSaveWorkbookAs();
+    }
+  };
+
+  const handleExport = async (format: ExportFormat, options: SheetExportOptions) => {
+    setExportFormat(null);
+    try {
+      const blob = await spreadsheetRef.current?.exportSheet(format, options);
+      if (blob) {
+        downloadBlob(blob, `sheet.${format}`);
+      }
+    } catch (error) {
+      console.error(`Failed to export ${format.toUpperCase()}:`, error);
+      window.alert(`Could not export ${format.toUpperCase()}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExportData = async (options: DataExportOptions) => {
+    setShowDataExport(false);
+    try {
+      const blob = await spreadsheetRef.current?.exportData(options);
+      if (blob) {
+        downloadBlob(blob, `${documentName}.${options.format}`);
+      }
+    } catch (error) {
+      console.error("Failed to export data:", error);
+      window.alert(`Could not export data: ${(error as Error).message}`);
+    }
+  };
+
+  const handleReplay = (speed: number) => {
+    setShowFileMenu(false);
+    replaySpeedRef.current = speed;
+    replayInputRef.current?.click();
+  };
+
+  const handleReplayFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const log = parseStrokeLog(await readFileAsText(file));
+      spreadsheetRef.current?.replay(log, replaySpeedRef.current);
+      setIsDirty(true);
+    } catch (error) {
+      console.error("Failed to load recording:", error);
+      window.alert(`Could not open recording: ${(error as Error).message}`);
+    }
+  };
+
+  // Ctrl+wheel and pinching reach zooms between the presets, listed where they fall
+  const zoomOptions = useMemo(
+    () =>
+      [...new Set([...ZOOM_PRESETS, zoom])]
+        .sort((a, b) => a - b)
+        .map((value) => ({ value, label: `${Math.round(value * 100)}%` })),
+    [zoom]
+  );
+
+  // Same array while the selection is unchanged, so the scene keeps its quantizer
+  const paletteColors = useMemo(
+    () => (paletteKind === "custom" ? customPalette?.colors ?? null : getPresetPalette(paletteKind)),
+    [paletteKind, customPalette]
+  );
+
+  const handlePaletteFileSelect = async (file: File) => {
+    try {
+      const colors = parsePaletteFile(await file.arrayBuffer());
+      setCustomPalette({ name: file.name, colors });
+    } catch (error) {
+      console.error("Failed to load palette:", error);
+      window.alert(`Could not open palette: ${(error as Error).message}`);
+    }
+  };
+
   // Close menus when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       const target = event.target as Node;
 
+      // Check File menu
+      if (showFileMenu) {
+        const clickedButton = fileButtonRef.current?.contains(target);
+        const clickedMenu = fileMenuRef.current?.contains(target);
+        if (!clickedButton && !clickedMenu) {
+          setShowFileMenu(false);
+        }
+      }
+
       // Check View menu
       if (showViewMenu) {
         const clickedButton = viewButtonRef.current?.contains(target);
@@ -93,7 +443,7 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
     return () => {
       document.removeEventListener("mousedown", handleClickOutside);
     };
-  }, [showViewMenu, showInsertMenu]);
+  }, [showFileMenu, showViewMenu, showInsertMenu]);
 
   return (
     <>
@@ -104,6 +454,34 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
         onChange={handleFileChange}
         style={{ display: "none" }}
       />
+      <input
+        ref={dataInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+        onChange={handleDataFileChange}
+        style={{ display: "none" }}
+      />
+      <input
+        ref={videoInputRef}
+        type="file"
+        accept="video/*"
+        onChange={handleVideoFileChange}
+        style={{ display: "none" }}
+      />
+      <input
+        ref={workbookInputRef}
+        type="file"
+        accept={`${WORKBOOK_EXTENSION},application/json`}
+        onChange={handleWorkbookFileChange}
+        style={{ display: "none" }}
+      />
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleReplayFileChange}
+        style={{ display: "none" }}
+      />
       <div
         style={{
           position: "absolute",
@@ -125,16 +503,132 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
           }}
         >
           <WindowHeader className="window-title">
-            <span>Microsoft Excel - Start here</span>
+            <span>
+              Microsoft Excel - {documentName}
+              {isDirty ? " *" : ""}
+            </span>
             <Button size="sm" square onClick={onClose}>
               <span className="close-icon" />
             </Button>
           </WindowHeader>
           <WindowContent className="window-content">
             <Toolbar className="toolbar">
-              <Button variant="thin" size="sm">
-                File
-              </Button>
+              <div style={{ position: "relative" }}>
+                <Button
+                  ref={fileButtonRef}
+                  variant="thin"
+                  size="sm"
+                  onClick={() => setShowFileMenu(!showFileMenu)}
+                  active={showFileMenu}
+                >
+                  File
+                </Button>
+                {showFileMenu && (
+                  <div
+                    ref={fileMenuRef}
+                    style={{
+                      position: "absolute",
+                      top: "100%",
+                      left: 0,
+                      zIndex: 1000,
+                    }}
+                  >
+                    <MenuList style={{ minWidth: "180px" }}>
+                      <MenuListItem
+                        size="sm"
+                        onClick={handleNewWorkbook}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        New
+                      </MenuListItem>
+                      <MenuListItem
+                        size="sm"
+                        onClick={handleOpenWorkbook}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        Open...
+                      </MenuListItem>
+                      <MenuListItem
+                        size="sm"
+                        onClick={handleSaveWorkbook}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        Save
+                      </MenuListItem>
+                      <MenuListItem
+                        size="sm"
+                        onClick={handleSaveWorkbookAs}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        Save As...
+                      </MenuListItem>
+                      <Separator />
+                      <MenuListItem
+                        size="sm"
+                        onClick={handleToggleRecording}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        {isRecording && (
+                          <span
+                            style={{
+                              position: "absolute",
+                              left: "6px",
+                              top: "50%",
+                              transform: "translateY(-50%)",
+                            }}
+                          >
+                            <Checkmark />
+                          </span>
+                        )}
+                        Record Strokes
+                      </MenuListItem>
+                      <MenuListItem
+                        size="sm"
+                        disabled={!lastRecording}
+                        onClick={handleSaveRecording}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        Save Recording...
+                      </MenuListItem>
+                      <Separator />
+                      {[0.5, 1, 2].map((speed) => (
+                        <MenuListItem
+                          key={speed}
+                          size="sm"
+                          onClick={() => handleReplay(speed)}
+                          style={{ position: "relative", paddingLeft: "24px" }}
+                        >
+                          Replay at {speed}x...
+                        </MenuListItem>
+                      ))}
+                      <Separator />
+                      {(["png", "svg"] as const).map((format) => (
+                        <MenuListItem
+                          key={format}
+                          size="sm"
+                          onClick={() => {
+                            setShowFileMenu(false);
+                            setExportFormat(format);
+                          }}
+                          style={{ position: "relative", paddingLeft: "24px" }}
+                        >
+                          Export as {format.toUpperCase()}...
+                        </MenuListItem>
+                      ))}
+                      <MenuListItem
+                        size="sm"
+                        onClick={() => {
+                          setShowFileMenu(false);
+                          setShowDataExport(true);
+                        }}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        Export Data...
+                      </MenuListItem>
+                    </MenuList>
+                  </div>
+                )}
+              </div>
               <div style={{ position: "relative" }}>
                 <Button
                   ref={viewButtonRef}
@@ -194,6 +688,27 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
                         )}
                         Debug
                       </MenuListItem>
+                      <MenuListItem
+                        size="sm"
+                        onClick={() =>
+                          setRenderer(renderer === "webgl2" ? "canvas2d" : "webgl2")
+                        }
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        {renderer === "webgl2" && (
+                          <span
+                            style={{
+                              position: "absolute",
+                              left: "6px",
+                              top: "50%",
+                              transform: "translateY(-50%)",
+                            }}
+                          >
+                            <Checkmark />
+                          </span>
+                        )}
+                        WebGL Renderer
+                      </MenuListItem>
                     </MenuList>
                   </div>
                 )}
@@ -228,7 +743,14 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
                       </MenuListItem>
                       <MenuListItem
                         size="sm"
-                        onClick={() => setShowInsertMenu(false)}
+                        onClick={handleDataInsert}
+                        style={{ position: "relative", paddingLeft: "24px" }}
+                      >
+                        Data...
+                      </MenuListItem>
+                      <MenuListItem
+                        size="sm"
+                        onClick={handleVideoInsert}
                         style={{ position: "relative", paddingLeft: "24px" }}
                       >
                         Video
@@ -237,10 +759,48 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
                   </div>
                 )}
               </div>
+              <Button
+                variant="thin"
+                size="sm"
+                onClick={() => setEraser(!eraser)}
+                active={eraser}
+              >
+                Eraser
+              </Button>
+              <Select<number>
+                width={80}
+                menuMaxHeight={200}
+                options={zoomOptions}
+                value={zoom}
+                onChange={(option) => setZoom(option.value)}
+                aria-label="Zoom"
+              />
+              <GifRecorder
+                onStart={(options) => spreadsheetRef.current?.startCapture(options)}
+                onStop={() =>
+                  spreadsheetRef.current?.stopCapture() ??
+                  Promise.reject(new Error("Spreadsheet is not ready"))
+                }
+              />
             </Toolbar>
+            <FormulaBar
+              cell={selectedCell}
+              entry={selectedCell ? cells.find((entry) => isSameCell(entry, selectedCell)) ?? null : null}
+              onCommit={(input) => selectedCell && handleCellEdit(selectedCell, input)}
+              onDrivesDensityChange={handleDrivesDensityChange}
+            />
+            {insertedVideo && (
+              <VideoPlayer
+                key={insertedVideo.url}
+                src={insertedVideo.url}
+                name={insertedVideo.name}
+                onFrame={(image) => spreadsheetRef.current?.setVideoFrame(image)}
+                onClose={closeVideo}
+              />
+            )}
 
             <div
-              style={{ display: "flex", height: "100%", overflow: "hidden" }}
+              style={{ display: "flex", flex: 1, minHeight: 0, overflow: "hidden" }}
             >
               {showControls && (
                 <div
@@ -255,21 +815,64 @@ export const ExcelWindow: React.FC<ExcelWindowProps> = ({
                     config={densityConfig}
                     onChange={handleConfigChange}
                     imageScale={imageScale}
-                    onImageScaleChange={onImageScaleChange}
+                    onImageScaleChange={handleImageScaleChange}
+                    sampling={sampling}
+                    onSamplingChange={setSampling}
+                    palette={paletteKind}
+                    onPaletteChange={setPaletteKind}
+                    customPaletteName={customPalette?.name ?? null}
+                    onPaletteFileSelect={handlePaletteFileSelect}
+                    dither={dither}
+                    onDitherChange={setDither}
                   />
                 </div>
               )}
               <div className="spreadsheet-container" style={{ flex: 1 }}>
                 <DensitySpreadsheet
+                  ref={spreadsheetRef}
+                  eraser={eraser}
+                  zoom={zoom}
+                  onZoomChange={setZoom}
                   debugMode={debugMode}
                   config={densityConfig}
                   insertedImage={insertedImage}
                   imageScale={imageScale}
+                  renderer={renderer}
+                  sampling={sampling}
+                  palette={paletteColors}
+                  dither={dither}
+                  onPaint={() => setIsDirty(true)}
+                  cells={cells}
+                  selectedCell={selectedCell}
+                  onSelectCell={setSelectedCell}
+                  onEditCell={handleCellEdit}
                 />
               </div>
             </div>
           </WindowContent>
         </Window>
+        {exportFormat && (
+          <ExportDialog
+            key={exportFormat}
+            format={exportFormat}
+            onExport={(options) => handleExport(exportFormat, options)}
+            onCancel={() => setExportFormat(null)}
+          />
+        )}
+        {importedData && (
+          <DataImportDialog
+            fileName={importedData.fileName}
+            cells={importedData.cells}
+            onImport={handleDataImport}
+            onCancel={() => setImportedData(null)}
+          />
+        )}
+        {showDataExport && (
+          <DataExportDialog
+            onExport={handleExportData}
+            onCancel={() => setShowDataExport(false)}
+          />
+        )}
       </div>
     </>
   );
@@ -0,0 +1,138 @@
+/**
+ * ExportDialog Component
+ *
+ * Options for exporting the sheet as a PNG or SVG: output size (PNG only),
+ * which parts of the sheet to include and cell merging (SVG only)
+ */
+
+import React, { useState } from "react";
+import {
+  Window,
+  WindowHeader,
+  WindowContent,
+  Button,
+  Checkbox,
+  NumberInput,
+  Radio,
+  Select,
+} from "react95";
+import type { ExportFormat, SheetExportOptions } from "../../types/spreadsheet";
+
+interface ExportDialogProps {
+  format: ExportFormat;
+  onExport: (options: SheetExportOptions) => void;
+  onCancel: () => void;
+}
+
+const SCALE_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8].map((scale) => ({
+  value: scale,
+  label: `${scale}x`,
+}));
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ format, onExport, onCancel }) => {
+  const [sizeMode, setSizeMode] = useState<"scale" | "width">("scale");
+  const [scale, setScale] = useState(2);
+  const [targetWidth, setTargetWidth] = useState(4096);
+  const [headers, setHeaders] = useState(true);
+  const [gridlines, setGridlines] = useState(true);
+  const [mergeCells, setMergeCells] = useState(true);
+
+  const handleExport = () => {
+    onExport({
+      scale,
+      targetWidth: sizeMode === "width" ? targetWidth : null,
+      headers,
+      gridlines,
+      mergeCells,
+    });
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        zIndex: 2000,
+      }}
+    >
+      <Window style={{ width: "280px" }}>
+        <WindowHeader className="window-title">
+          <span>Export as {format.toUpperCase()}</span>
+          <Button size="sm" square onClick={onCancel}>
+            <span className="close-icon" />
+          </Button>
+        </WindowHeader>
+        <WindowContent>
+          {format === "png" && (
+            <>
+              <div style={{ fontSize: "11px", marginBottom: "8px" }}>Size</div>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "6px" }}>
+                <Radio
+                  label="Scale"
+                  checked={sizeMode === "scale"}
+                  onChange={() => setSizeMode("scale")}
+                  name="export-size"
+                />
+                <Select<number>
+                  width={80}
+                  options={SCALE_OPTIONS}
+                  value={scale}
+                  disabled={sizeMode !== "scale"}
+                  onChange={(option) => setScale(option.value)}
+                />
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "12px" }}>
+                <Radio
+                  label="Width (px)"
+                  checked={sizeMode === "width"}
+                  onChange={() => setSizeMode("width")}
+                  name="export-size"
+                />
+                <NumberInput
+                  width={100}
+                  min={16}
+                  max={16384}
+                  step={256}
+                  value={targetWidth}
+                  disabled={sizeMode !== "width"}
+                  onChange={(value) => setTargetWidth(value)}
+                />
+              </div>
+            </>
+          )}
+
+          <Checkbox
+            label="Row and column headers"
+            checked={headers}
+            onChange={(e) => setHeaders(e.target.checked)}
+          />
+          <Checkbox
+            label="Gridlines"
+            checked={gridlines}
+            onChange={(e) => setGridlines(e.target.checked)}
+          />
+          {format === "svg" && (
+            <Checkbox
+              label="Merge same-color cells"
+              checked={mergeCells}
+              onChange={(e) => setMergeCells(e.target.checked)}
+            />
+          )}
+
+          <div style={{ display: "flex", justifyContent: "flex-end", gap: "6px", marginTop: "12px" }}>
+            <Button onClick={handleExport} style={{ minWidth: "70px" }}>
+              Export
+            </Button>
+            <Button onClick={onCancel} style={{ minWidth: "70px" }}>
+              Cancel
+            </Button>
+          </div>
+        </WindowContent>
+      </Window>
+    </div>
+  );
+};
+
+export default ExportDialog;
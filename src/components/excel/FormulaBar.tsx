@@ -0,0 +1,77 @@
+/**
+ * FormulaBar Component
+ *
+ * Shows the selected cell's name and what is typed into it, and edits it:
+ * a number, text, or a formula starting with '='. Formula cells can drive
+ * their own density with their result.
+ */
+
+import React, { useEffect, useState } from "react";
+import { TextInput, Checkbox } from "react95";
+import type { CellAddress, CellEntry } from "../../types/spreadsheet";
+import { getCellName } from "../../utils/canvas";
+
+interface FormulaBarProps {
+  cell: CellAddress | null; // Selected cell
+  entry: CellEntry | null; // What the selected cell holds, null if it is empty
+  onCommit: (input: string) => void;
+  onDrivesDensityChange: (drivesDensity: boolean) => void;
+}
+
+export const FormulaBar: React.FC<FormulaBarProps> = ({ cell, entry, onCommit, onDrivesDensityChange }) => {
+  const input = entry?.input ?? "";
+  const [draft, setDraft] = useState(input);
+
+  // Show the new contents when the selection moves or the cell is edited elsewhere
+  useEffect(() => {
+    setDraft(input);
+  }, [cell?.col, cell?.row, input]);
+
+  const commit = () => {
+    if (cell && draft !== input) {
+      onCommit(draft);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setDraft(input);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "6px",
+        padding: "2px 4px",
+        flexShrink: 0,
+        fontSize: "11px",
+      }}
+    >
+      <TextInput value={cell ? getCellName(cell) : ""} readOnly style={{ width: "70px" }} />
+      <span style={{ fontStyle: "italic", fontWeight: "bold" }}>fx</span>
+      <TextInput
+        value={draft}
+        disabled={!cell}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        style={{ flex: 1 }}
+      />
+      <Checkbox
+        label="Drive density"
+        checked={entry?.drivesDensity ?? false}
+        disabled={!entry?.input.trim().startsWith("=")}
+        onChange={(e) => onDrivesDensityChange(e.target.checked)}
+      />
+    </div>
+  );
+};
+
+export default FormulaBar;
@@ -0,0 +1,211 @@
+/**
+ * GifRecorder Component
+ *
+ * Toolbar button that records the spreadsheet as an animated GIF: pick a
+ * frame rate and size, record, and the frames are encoded in the browser
+ * and downloaded when recording stops
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Window,
+  WindowHeader,
+  WindowContent,
+  Button,
+  ProgressBar,
+  Select,
+} from "react95";
+import type { CapturedAnimation, GifCaptureOptions } from "../../types/spreadsheet";
+import { encodeGif } from "../../utils/gifEncoder";
+import { downloadBlob } from "../../utils/files";
+import { MAX_CAPTURE_FRAMES, MAX_CAPTURE_SIZE } from "../../utils/frameCapture";
+
+interface GifRecorderProps {
+  onStart: (options: GifCaptureOptions) => void;
+  onStop: () => Promise<CapturedAnimation>;
+}
+
+type RecorderState = "idle" | "settings" | "recording" | "encoding";
+
+const FPS_OPTIONS = [10, 15, 20, 25].map((fps) => ({
+  value: fps,
+  label: `${fps} fps`,
+}));
+
+const SCALE_OPTIONS = [0.25, 0.5, 1].map((scale) => ({
+  value: scale,
+  label: `${scale * 100}%`,
+}));
+
+const dialogStyle: React.CSSProperties = {
+  position: "absolute",
+  top: "50%",
+  left: "50%",
+  transform: "translate(-50%, -50%)",
+  zIndex: 2000,
+};
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+}
+
+export const GifRecorder: React.FC<GifRecorderProps> = ({ onStart, onStop }) => {
+  const [state, setState] = useState<RecorderState>("idle");
+  const [fps, setFps] = useState(15);
+  const [scale, setScale] = useState(0.5);
+  const [elapsed, setElapsed] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Recording stops by itself once the frame limit is reached
+  const maxSeconds = MAX_CAPTURE_FRAMES / fps;
+
+  const handleStart = () => {
+    onStart({ fps, scale });
+    setElapsed(0);
+    setState("recording");
+  };
+
+  const handleStop = async () => {
+    setProgress(0);
+    setState("encoding");
+
+    const abort = new AbortController();
+    abortRef.current = abort;
+    try {
+      const animation = await onStop();
+      if (animation.frames.length === 0) {
+        throw new Error("No frames were captured");
+      }
+      if (animation.truncated) {
+        console.warn(`GIF recording was cut short at ${animation.frames.length} frames`);
+      }
+
+      const blob = await encodeGif(animation.frames, animation.delays, {
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+        signal: abort.signal,
+      });
+      downloadBlob(blob, "recording.gif");
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error("Failed to record GIF:", error);
+        window.alert(`Could not create GIF: ${(error as Error).message}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setState("idle");
+    }
+  };
+
+  // Stop handler of the current render, for the recording timer
+  const stopRef = useRef(handleStop);
+  stopRef.current = handleStop;
+
+  useEffect(() => {
+    if (state !== "recording") return;
+
+    const startTime = performance.now();
+    const timer = window.setInterval(() => {
+      const seconds = (performance.now() - startTime) / 1000;
+      setElapsed(seconds);
+      if (seconds >= maxSeconds) {
+        window.clearInterval(timer);
+        stopRef.current();
+      }
+    }, 250);
+
+    return () => window.clearInterval(timer);
+  }, [state, maxSeconds]);
+
+  // Cancel a running encode if the window goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleButtonClick = () => {
+    if (state === "idle") {
+      setState("settings");
+    } else if (state === "recording") {
+      handleStop();
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="thin"
+        size="sm"
+        onClick={handleButtonClick}
+        active={state === "recording"}
+        disabled={state === "encoding"}
+      >
+        {state === "recording" ? `Stop ${formatElapsed(elapsed)}` : "Record"}
+      </Button>
+
+      {state === "settings" && (
+        <div style={dialogStyle}>
+          <Window style={{ width: "260px" }}>
+            <WindowHeader className="window-title">
+              <span>Record GIF</span>
+              <Button size="sm" square onClick={() => setState("idle")}>
+                <span className="close-icon" />
+              </Button>
+            </WindowHeader>
+            <WindowContent>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: "8px" }}>
+                <span style={{ fontSize: "11px" }}>Frame rate</span>
+                <Select<number>
+                  width={100}
+                  options={FPS_OPTIONS}
+                  value={fps}
+                  onChange={(option) => setFps(option.value)}
+                />
+              </div>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: "8px" }}>
+                <span style={{ fontSize: "11px" }}>Resolution</span>
+                <Select<number>
+                  width={100}
+                  options={SCALE_OPTIONS}
+                  value={scale}
+                  onChange={(option) => setScale(option.value)}
+                />
+              </div>
+              <div style={{ fontSize: "11px", color: "#808080" }}>
+                Up to {MAX_CAPTURE_FRAMES} frames ({formatElapsed(maxSeconds)}), at most {MAX_CAPTURE_SIZE}px on the longest side.
+              </div>
+
+              <div style={{ display: "flex", justifyContent: "flex-end", gap: "6px", marginTop: "12px" }}>
+                <Button onClick={handleStart} style={{ minWidth: "70px" }}>
+                  Record
+                </Button>
+                <Button onClick={() => setState("idle")} style={{ minWidth: "70px" }}>
+                  Cancel
+                </Button>
+              </div>
+            </WindowContent>
+          </Window>
+        </div>
+      )}
+
+      {state === "encoding" && (
+        <div style={dialogStyle}>
+          <Window style={{ width: "300px" }}>
+            <WindowHeader className="window-title">
+              <span>Creating GIF</span>
+            </WindowHeader>
+            <WindowContent>
+              <div style={{ fontSize: "11px", marginBottom: "8px" }}>Encoding frames...</div>
+              <ProgressBar value={progress} />
+              <div style={{ display: "flex", justifyContent: "flex-end", marginTop: "12px" }}>
+                <Button onClick={() => abortRef.current?.abort()} style={{ minWidth: "70px" }}>
+                  Cancel
+                </Button>
+              </div>
+            </WindowContent>
+          </Window>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default GifRecorder;
@@ -0,0 +1,169 @@
+/**
+ * VideoPlayer Component
+ *
+ * Plays an inserted video in a hidden video element and hands its frames to
+ * the sheet as the color source, a few times a second. The bar under the
+ * formula bar plays, pauses, loops and seeks it.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button, Checkbox, Slider } from "react95";
+import type { SceneImage } from "../../types/spreadsheet";
+import { VIDEO_FRAME_RATE, VideoFrameReader } from "../../utils/videoFrames";
+
+interface VideoPlayerProps {
+  src: string; // Object URL of the video file
+  name: string; // File name, shown in the bar
+  onFrame: (image: SceneImage) => void;
+  onClose: () => void;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+}
+
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, name, onFrame, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState(true);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  // Latest callbacks, for the frame loop and media events
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Read a frame whenever the picture has moved on, at most VIDEO_FRAME_RATE times a second
+  // Seeking while paused moves the picture too, so it is checked even when not playing
+  useEffect(() => {
+    const reader = new VideoFrameReader();
+    const interval = 1000 / VIDEO_FRAME_RATE;
+    let lastReadTime = -Infinity;
+    let lastVideoTime = -1;
+    let reading = false;
+    let cancelled = false;
+    let rafId = 0;
+
+    const tick = (now: number) => {
+      rafId = requestAnimationFrame(tick);
+      const video = videoRef.current;
+      if (!video || reading || now - lastReadTime < interval || video.currentTime === lastVideoTime) return;
+
+      reading = true;
+      lastReadTime = now;
+      const videoTime = video.currentTime;
+      reader
+        .read(video)
+        .then((image) => {
+          if (image && !cancelled) {
+            lastVideoTime = videoTime;
+            onFrameRef.current(image);
+          }
+        })
+        .catch((error) => console.error("Failed to read video frame:", error))
+        .finally(() => {
+          reading = false;
+        });
+    };
+
+    rafId = requestAnimationFrame(tick);
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(rafId);
+    };
+  }, [src]);
+
+  const handlePlayPause = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (!video.paused) {
+      video.pause();
+      return;
+    }
+    try {
+      // Playing again from the end starts over
+      if (video.ended) {
+        video.currentTime = 0;
+      }
+      await video.play();
+    } catch (error) {
+      console.error("Failed to play video:", error);
+      window.alert(`Could not play video: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSeek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const handleError = () => {
+    const error = videoRef.current?.error;
+    console.error("Failed to load video:", error);
+    window.alert(`Could not open ${name}: the browser cannot play this video`);
+    onCloseRef.current();
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "6px",
+        padding: "2px 4px",
+        flexShrink: 0,
+        fontSize: "11px",
+      }}
+    >
+      {/* Muted, so browsers allow it to start playing by itself */}
+      <video
+        ref={videoRef}
+        src={src}
+        autoPlay
+        muted
+        playsInline
+        loop={loop}
+        style={{ display: "none" }}
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        onDurationChange={(e) => setDuration(e.currentTarget.duration)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onError={handleError}
+      />
+      <Button variant="thin" size="sm" onClick={handlePlayPause} style={{ minWidth: "60px" }}>
+        {playing ? "Pause" : "Play"}
+      </Button>
+      <span style={{ maxWidth: "160px", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+        {name}
+      </span>
+      <div style={{ flex: 1, minWidth: "100px", padding: "0 8px" }}>
+        <Slider
+          style={{ marginBottom: 0 }}
+          size="100%"
+          min={0}
+          max={Number.isFinite(duration) && duration > 0 ? duration : 1}
+          step={0.1}
+          value={currentTime}
+          onChange={handleSeek}
+          disabled={!Number.isFinite(duration) || duration <= 0}
+        />
+      </div>
+      <span style={{ fontVariantNumeric: "tabular-nums" }}>
+        {formatTime(currentTime)} / {Number.isFinite(duration) ? formatTime(duration) : "-:--"}
+      </span>
+      <Checkbox label="Loop" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+      <Button size="sm" square onClick={onClose} aria-label="Remove video">
+        <span className="close-icon" />
+      </Button>
+    </div>
+  );
+};
+
+export default VideoPlayer;
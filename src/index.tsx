@@ -1,12 +1,47 @@
-import { serve } from "bun";
+import { serve, type BuildArtifact } from "bun";
 import index from "./index.html";
 
+const isProduction = process.env.NODE_ENV === "production";
+
+// Production bundles the worker once; development rebundles so edits show up
+let workerBundle: Promise<BuildArtifact> | null = null;
+
+async function bundleWorker(): Promise<BuildArtifact> {
+  const result = await Bun.build({
+    entrypoints: [`${import.meta.dir}/workers/spreadsheet.worker.ts`],
+    target: "browser",
+    minify: isProduction,
+    throw: false,
+  });
+  if (!result.success) {
+    throw new Error(result.logs.map(String).join("\n"));
+  }
+  return result.outputs[0];
+}
+
 const server = serve({
   routes: {
+    // Workers are not picked up from the HTML entrypoint, bundle on request
+    "/workers/spreadsheet.worker.js": async () => {
+      try {
+        const bundle = await (isProduction ? (workerBundle ??= bundleWorker()) : bundleWorker());
+        return new Response(bundle, {
+          headers: { "Content-Type": "text/javascript" },
+        });
+      } catch (error) {
+        // Not cached, so the next request tries again
+        workerBundle = null;
+        console.error("Failed to bundle the spreadsheet worker:", error);
+        return new Response(`Failed to bundle the spreadsheet worker:\n${(error as Error).message}`, {
+          status: 500,
+          headers: { "Content-Type": "text/plain" },
+        });
+      }
+    },
     "/*": index,
   },
 
-  development: process.env.NODE_ENV !== "production" && {
+  development: !isProduction && {
     hmr: true,
     console: true,
   },
@@ -7,6 +7,27 @@ export interface Point {
   y: number;
 }
 
+/**
+ * Part of the sheet shown on the canvas
+ */
+export interface Viewport {
+  x: number; // Scroll offset in CSS pixels of the zoomed sheet
+  y: number;
+  zoom: number; // Screen pixels per sheet pixel, 1 = 100%
+}
+
+export interface BrushPoint extends Point {
+  strength?: number; // Signed brush strength, negative erases (defaults to 1)
+  pressure?: number; // Pen pressure (0 to 1), undefined for pointers without pressure
+  tiltX?: number; // Pen tilt in degrees (-90 to 90), as reported by Pointer Events
+  tiltY?: number;
+}
+
+export interface BrushStroke {
+  points: BrushPoint[]; // Recent interpolated points of one pointer
+  velocity: number; // Smoothed speed of that pointer in pixels per second
+}
+
 export interface CellBounds {
   x: number;
   y: number;
@@ -29,27 +50,134 @@ export interface SubdivisionParams {
   maxLevel: number;
 }
 
+export type FalloffKind =
+  | 'linear'
+  | 'quadratic'
+  | 'gaussian'
+  | 'smoothstep'
+  | 'constant'
+  | 'cubic-bezier';
+
+// Control points (x1, y1, x2, y2) of a CSS-style cubic-bezier, curve runs from (0,0) to (1,1)
+export type BezierControlPoints = [number, number, number, number];
+
+export type SubdivisionMode = 'uniform' | 'adaptive';
+
+// Whether the brush radius is measured on the sheet (so it zooms with it) or on screen
+export type BrushSpace = 'sheet' | 'screen';
+
 export interface Config {
   // Grid properties
   baseCellWidth: number;
   baseCellHeight: number;
-  columns: number;
+  columns: number; // Sheet size in base cells, only the visible part is simulated
   rows: number;
 
   // Painting/density properties
   increaseRate: number; // Base density increase per second at cursor position
   decayRate: number; // Global density decay per second
   influenceRadius: number; // Radius of cursor influence in pixels
+  brushSpace: BrushSpace; // Pixels of influenceRadius are sheet pixels, or screen pixels at any zoom
   increaseMultiplier: number; // User-adjustable multiplier for increase rate
   decayMultiplier: number; // User-adjustable multiplier for decay rate
   velocityInfluence: number; // How much velocity affects build speed (1.0 to 15.0)
   interpolationDensity: number; // Density of interpolation points (0.5 to 10.0, higher = smoother)
   holdDuration: number; // Time in seconds before decay starts (0 to 3 seconds)
   decayAcceleration: number; // How quickly decay ramps up over time (0.5 to 10.0)
+  persistent: boolean; // Density never decays, so it stays until painted over or erased
   maxSubdivisionLevel: number; // Maximum subdivision level (1 to 12)
+  falloff: FalloffKind; // Brush profile from cursor to the edge of the influence radius
+  falloffBezier: BezierControlPoints; // Curve used when falloff is 'cubic-bezier'
+  pressureSensitivity: boolean; // Pen pressure scales the build rate
+  pressureAffectsSize: boolean; // Pen pressure also scales the influence radius
+  diffusionRate: number; // How fast density spreads to neighboring cells, per second (0 = off)
+  diffusionNeighbors: 4 | 8; // Spread to orthogonal neighbors only, or diagonals too
+  windStrength: number; // Density drift in cells per second (0 = off)
+  windDirection: number; // Drift direction in degrees, 0 = right, 90 = down
+  subdivisionMode: SubdivisionMode; // Split by aspect ratio, or by image detail under the cell
+  detailThreshold: number; // Adaptive mode: least image edge strength worth a split (0 to 0.2)
 }
 
 export interface CellDensityState {
   density: number; // Current density value (0.0 to 1.0)
   lastPaintedTime: number; // Timestamp when this cell was last painted (milliseconds)
 }
+
+export type RendererKind = 'canvas2d' | 'webgl2';
+
+export type SamplingMode = 'center' | 'average' | 'median' | 'dominant';
+
+export type Rgb = [number, number, number];
+
+export type PaletteKind = 'full' | 'vga16' | 'halftone256' | 'gray4' | 'gray16' | 'custom';
+
+export type DitherMode = 'none' | 'ordered' | 'error-diffusion';
+
+export interface SceneOptions {
+  debugMode: boolean;
+  imageScale: number;
+  renderer: RendererKind; // Backend used to draw cells and gridlines
+  sampling: SamplingMode; // How a cell's color is taken from the image under it
+  palette: Rgb[] | null; // Colors cell fills are reduced to, null keeps full color
+  dither: DitherMode; // How palette reduction spreads its error across cells
+}
+
+export type ExportFormat = 'png' | 'svg';
+
+export interface SheetExportOptions {
+  scale: number; // PNG: output pixels per CSS pixel (1 to 8)
+  targetWidth: number | null; // PNG: output width in pixels, overrides scale when set
+  headers: boolean; // Include row and column headers
+  gridlines: boolean; // Include cell borders and subdivision lines
+  mergeCells: boolean; // SVG: merge adjacent same-color cells into one rect
+}
+
+/**
+ * A base cell, addressed like the sheet headers (column A = 0, row 1 = 0)
+ */
+export interface CellAddress {
+  col: number;
+  row: number;
+}
+
+/**
+ * A value for one base cell
+ */
+export interface CellValue extends CellAddress {
+  value: number;
+}
+
+/**
+ * What was typed into a base cell: a number, text, or a formula starting with '='
+ */
+export interface CellEntry extends CellAddress {
+  input: string;
+  drivesDensity?: boolean; // A formula result between 0 and 1 sets the cell's density
+}
+
+export type DataNormalization = 'minmax' | 'percentile' | 'log';
+
+export type DataExportFormat = 'csv' | 'tsv';
+
+export interface DataExportOptions {
+  format: DataExportFormat;
+  levels: boolean; // Add a grid of subdivision levels
+  colors: boolean; // Add a grid of sampled cell colors as hex
+  range: 'visible' | 'painted'; // Cells in view, or the bounding box of every painted cell, on screen or not
+}
+
+export interface GifCaptureOptions {
+  fps: number; // Frames captured per second
+  scale: number; // Frame size relative to the sheet's CSS pixel size
+}
+
+export interface CapturedAnimation {
+  frames: ImageData[];
+  delays: number[]; // Time each frame is shown (milliseconds)
+  truncated: boolean; // Capture stopped early at the frame or memory limit
+}
+
+export interface SceneImage {
+  data: ImageData; // Pixels composited on white, used for cell colors
+  bitmap: ImageBitmap; // Original image, drawn as overlay in debug mode
+}
@@ -0,0 +1,62 @@
+/**
+ * Messages between the main thread and the spreadsheet render worker
+ */
+
+import type {
+  Config,
+  CellAddress,
+  CellEntry,
+  CellValue,
+  Viewport,
+  SceneOptions,
+  SceneImage,
+  ExportFormat,
+  SheetExportOptions,
+  DataExportOptions,
+  GifCaptureOptions,
+  CapturedAnimation,
+} from './spreadsheet';
+import type { DensitySnapshot, InputSample } from '../utils/simulation';
+import type { StrokeLog } from '../utils/strokeLog';
+
+export type SpreadsheetWorkerMessage =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      config: Config;
+      options: SceneOptions;
+      width: number;
+      height: number;
+      dpr: number;
+    }
+  | { type: 'resize'; width: number; height: number; dpr: number }
+  | { type: 'config'; config: Config }
+  | { type: 'options'; options: Partial<SceneOptions> }
+  | { type: 'image'; image: SceneImage | null }
+  // Sample timestamps are absolute (performance.timeOrigin + performance.now())
+  // because the worker clock has a different origin than the main thread
+  | { type: 'sample'; sample: InputSample }
+  | { type: 'endStroke'; pointerId?: number }
+  | { type: 'replay'; log: StrokeLog; speed: number }
+  | { type: 'restoreDensity'; config: Config; snapshot: DensitySnapshot | null }
+  | { type: 'setDensities'; values: CellValue[] }
+  | { type: 'cells'; entries: CellEntry[] }
+  | { type: 'selection'; cell: CellAddress | null }
+  | { type: 'viewport'; viewport: Viewport }
+  // Requests below are answered with a reply carrying the same id,
+  // or a 'failed' reply if the request threw
+  | { type: 'export'; id: number; format: ExportFormat; options: SheetExportOptions }
+  | { type: 'exportData'; id: number; options: DataExportOptions }
+  | { type: 'startCapture'; options: GifCaptureOptions }
+  | { type: 'stopCapture'; id: number }
+  | { type: 'snapshotDensity'; id: number };
+
+/**
+ * Replies sent from the worker back to the main thread
+ */
+export type SpreadsheetWorkerReply =
+  | { type: 'exported'; id: number; blob: Blob }
+  // Frame buffers are transferred, not copied
+  | { type: 'captured'; id: number; animation: CapturedAnimation }
+  | { type: 'densitySnapshot'; id: number; snapshot: DensitySnapshot }
+  | { type: 'failed'; id: number; message: string };
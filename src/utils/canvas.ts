@@ -2,7 +2,28 @@
  * Canvas drawing utilities for the density spreadsheet
  */
 
-import type { CellBounds } from '../types/spreadsheet';
+import type { CellAddress, CellBounds, Config, Point, Viewport } from '../types/spreadsheet';
+import type { GridWindow } from './simulation';
+
+// Size of the row header column and the column header row
+export const HEADER_WIDTH = 45;
+export const HEADER_HEIGHT = 24;
+
+// Header styling, shared with the SVG export
+export const HEADER_FILL = '#c0c0c0';
+export const HEADER_BORDER = '#808080';
+export const HEADER_FONT_SIZE = 11;
+export const HEADER_FONT_FAMILY = 'ms_sans_serif, Arial, sans-serif';
+
+// Zoom range, and the steps offered in the zoom dropdown
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 8;
+export const ZOOM_PRESETS = [0.25, 0.5, 0.75, 1, 1.5, 2, 4, 8];
+
+/**
+ * 2D context of either an on-screen canvas or an OffscreenCanvas (worker rendering)
+ */
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
 
 /**
  * Calculate border color that gets lighter with subdivision level
@@ -21,16 +42,15 @@ function calculateBorderColor(subdivisionLevel: number, maxLevel: number = 8): s
 }
 
 /**
- * Calculate border color with transparency for image cells
+ * Calculate border opacity for image cells
  * Higher subdivision = more transparent borders
- * Level 0 = rgba(128, 128, 128, 0.3), Level 6 = rgba(128, 128, 128, 0.05), Level 7+ = transparent
+ * Level 0 = 0.3, Level 6 = 0.05, Level 7+ = 0 (transparent)
  * Uses absolute levels (not relative to maxLevel) so visual fade is consistent regardless of max subdivisions
  */
-export function calculateImageBorderColor(subdivisionLevel: number, maxLevel: number = 8): string {
-  // Use absolute subdivision levels for transparency
+export function calculateImageBorderAlpha(subdivisionLevel: number): number {
   // Levels 7 and above are completely transparent
   if (subdivisionLevel >= 7) {
-    return `rgba(128, 128, 128, 0)`;
+    return 0;
   }
 
   // Start with 30% opacity, fade to 5% opacity at level 6
@@ -39,21 +59,82 @@ export function calculateImageBorderColor(subdivisionLevel: number, maxLevel: nu
   const fadeMaxLevel = 6; // Fade completes at absolute level 6
 
   const normalizedLevel = Math.min(subdivisionLevel / fadeMaxLevel, 1.0);
-  const alpha = baseAlpha - (baseAlpha - minAlpha) * normalizedLevel;
+  return baseAlpha - (baseAlpha - minAlpha) * normalizedLevel;
+}
+
+/**
+ * Calculate border color with transparency for image cells
+ * Gray with the opacity from calculateImageBorderAlpha
+ */
+export function calculateImageBorderColor(subdivisionLevel: number, maxLevel: number = 8): string {
+  const alpha = calculateImageBorderAlpha(subdivisionLevel);
+
+  if (alpha === 0) {
+    return `rgba(128, 128, 128, 0)`;
+  }
 
   return `rgba(128, 128, 128, ${alpha.toFixed(3)})`;
 }
 
+/**
+ * Calculate how many columns/rows fit in a canvas below and right of the headers
+ */
+export function getGridDimensions(
+  width: number,
+  height: number,
+  config: Config
+): { columns: number; rows: number } {
+  const availableWidth = width - HEADER_WIDTH;
+  const availableHeight = height - HEADER_HEIGHT;
+
+  const columns = Math.max(0, Math.ceil(availableWidth / config.baseCellWidth));
+  const rows = Math.max(0, Math.ceil(availableHeight / config.baseCellHeight));
+
+  return { columns, rows };
+}
+
+/**
+ * Keep a zoom factor within MIN_ZOOM and MAX_ZOOM
+ */
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Sheet position (origin at cell A1, unzoomed) of a canvas point
+ */
+export function toSheetPoint(x: number, y: number, viewport: Viewport): Point {
+  return {
+    x: (x - HEADER_WIDTH + viewport.x) / viewport.zoom,
+    y: (y - HEADER_HEIGHT + viewport.y) / viewport.zoom,
+  };
+}
+
+/**
+ * Base cells visible in a canvas showing the viewport, within the sheet size
+ */
+export function getVisibleWindow(width: number, height: number, viewport: Viewport, config: Config): GridWindow {
+  const cellWidth = config.baseCellWidth * viewport.zoom;
+  const cellHeight = config.baseCellHeight * viewport.zoom;
+  const col = Math.min(config.columns, Math.max(0, Math.floor(viewport.x / cellWidth)));
+  const row = Math.min(config.rows, Math.max(0, Math.floor(viewport.y / cellHeight)));
+  const endCol = Math.min(config.columns, Math.ceil((viewport.x + width - HEADER_WIDTH) / cellWidth));
+  const endRow = Math.min(config.rows, Math.ceil((viewport.y + height - HEADER_HEIGHT) / cellHeight));
+
+  return { col, row, columns: Math.max(0, endCol - col), rows: Math.max(0, endRow - row) };
+}
+
 /**
  * Draw a single cell on the canvas with Excel-like styling
  * Border gets progressively lighter with subdivision level
  */
 export function drawCell(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   cell: CellBounds,
   fillColor: string = '#ffffff',
   strokeColor?: string,
-  subdivisionLevel: number = 0
+  subdivisionLevel: number = 0,
+  lineWidth: number = 0.5
 ): void {
   // Fill
   ctx.fillStyle = fillColor;
@@ -62,15 +143,15 @@ export function drawCell(
   // Stroke (border) - gets lighter with subdivision
   const borderColor = strokeColor || calculateBorderColor(subdivisionLevel);
   ctx.strokeStyle = borderColor;
-  ctx.lineWidth = 0.5;
-  ctx.strokeRect(cell.x + 0.25, cell.y + 0.25, cell.width - 0.5, cell.height - 0.5);
+  ctx.lineWidth = lineWidth;
+  ctx.strokeRect(cell.x + lineWidth / 2, cell.y + lineWidth / 2, cell.width - lineWidth, cell.height - lineWidth);
 }
 
 /**
  * Draw cells with a color based on distance (for debug visualization)
  */
 export function drawCellWithDistanceColor(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   cell: CellBounds,
   distance: number,
   maxRadius: number
@@ -92,7 +173,7 @@ export function drawCellWithDistanceColor(
  * Clear the entire canvas
  */
 export function clearCanvas(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   width: number,
   height: number
 ): void {
@@ -103,7 +184,7 @@ export function clearCanvas(
  * Draw a grid of cells
  */
 export function drawGrid(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   cells: CellBounds[],
   fillColor?: string,
   strokeColor?: string
@@ -113,74 +194,155 @@ export function drawGrid(
   });
 }
 
+/**
+ * Header label of a column (A, B, ..., Z, AA, AB, ..., ZZ, AAA, ...)
+ */
+export function getColumnLabel(index: number): string {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+/**
+ * Column index of a header label (A = 0, Z = 25, AA = 26), null if it is not one
+ */
+export function parseColumnLabel(label: string): number | null {
+  const letters = label.trim().toUpperCase();
+  if (!/^[A-Z]+$/.test(letters)) {
+    return null;
+  }
+
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Name of a cell as written in formulas (A1, B7, ...)
+ */
+export function getCellName(cell: CellAddress): string {
+  return `${getColumnLabel(cell.col)}${cell.row + 1}`;
+}
+
+/**
+ * Base cell under a canvas point, null over the headers or outside the sheet
+ */
+export function getCellAtPoint(x: number, y: number, viewport: Viewport, config: Config): CellAddress | null {
+  const point = toSheetPoint(x, y, viewport);
+  const col = Math.floor(point.x / config.baseCellWidth);
+  const row = Math.floor(point.y / config.baseCellHeight);
+  if (x < HEADER_WIDTH || y < HEADER_HEIGHT || col >= config.columns || row >= config.rows) {
+    return null;
+  }
+  return { col, row };
+}
+
+/**
+ * Draw a cell's text, clipped to the cell and vertically centered
+ * Font size and padding grow with fontSize, so zoomed cells keep their layout
+ */
+export function drawCellText(
+  ctx: DrawingContext,
+  cell: CellBounds,
+  text: string,
+  align: 'left' | 'right',
+  fontSize: number = HEADER_FONT_SIZE
+): void {
+  const padding = (3 * fontSize) / HEADER_FONT_SIZE;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(cell.x, cell.y, cell.width, cell.height);
+  ctx.clip();
+
+  ctx.fillStyle = '#000000';
+  ctx.font = `${fontSize}px ${HEADER_FONT_FAMILY}`;
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  const x = align === 'left' ? cell.x + padding : cell.x + cell.width - padding;
+  ctx.fillText(text, x, cell.y + cell.height / 2);
+  ctx.restore();
+}
+
 /**
  * Draw column headers (A, B, C, ...)
+ * Starts at column firstColumn, shifted left by the horizontal scroll offset
  */
 export function drawColumnHeaders(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   columns: number,
   cellWidth: number,
   headerWidth: number,
-  headerHeight: number
+  headerHeight: number,
+  firstColumn: number = 0,
+  scrollX: number = 0
 ): void {
-  ctx.fillStyle = '#c0c0c0';
-  ctx.strokeStyle = '#808080';
+  ctx.fillStyle = HEADER_FILL;
+  ctx.strokeStyle = HEADER_BORDER;
   ctx.lineWidth = 1;
-  ctx.font = '11px ms_sans_serif, Arial, sans-serif';
+  ctx.font = `${HEADER_FONT_SIZE}px ${HEADER_FONT_FAMILY}`;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
 
-  for (let i = 0; i < columns; i++) {
-    const x = headerWidth + i * cellWidth;
+  for (let i = firstColumn; i < firstColumn + columns; i++) {
+    const x = headerWidth + i * cellWidth - scrollX;
     const y = 0;
 
     // Draw header background with 3D effect
-    ctx.fillStyle = '#c0c0c0';
+    ctx.fillStyle = HEADER_FILL;
     ctx.fillRect(x, y, cellWidth, headerHeight);
 
     // Draw border
-    ctx.strokeStyle = '#808080';
+    ctx.strokeStyle = HEADER_BORDER;
     ctx.strokeRect(x, y, cellWidth, headerHeight);
 
     // Draw text
     ctx.fillStyle = '#000000';
-    const letter = String.fromCharCode(65 + i);
-    ctx.fillText(letter, x + cellWidth / 2, y + headerHeight / 2);
+    ctx.fillText(getColumnLabel(i), x + cellWidth / 2, y + headerHeight / 2);
   }
 }
 
 /**
  * Draw row headers (1, 2, 3, ...)
+ * Starts at row firstRow, shifted up by the vertical scroll offset
+ * Rows zoomed out too far to hold a line of text are left unlabelled
  */
 export function drawRowHeaders(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   rows: number,
   cellHeight: number,
   headerWidth: number,
-  headerHeight: number
+  headerHeight: number,
+  firstRow: number = 0,
+  scrollY: number = 0
 ): void {
-  ctx.fillStyle = '#c0c0c0';
-  ctx.strokeStyle = '#808080';
+  ctx.fillStyle = HEADER_FILL;
+  ctx.strokeStyle = HEADER_BORDER;
   ctx.lineWidth = 1;
-  ctx.font = '11px ms_sans_serif, Arial, sans-serif';
+  ctx.font = `${HEADER_FONT_SIZE}px ${HEADER_FONT_FAMILY}`;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
 
-  for (let i = 0; i < rows; i++) {
+  for (let i = firstRow; i < firstRow + rows; i++) {
     const x = 0;
-    const y = headerHeight + i * cellHeight;
+    const y = headerHeight + i * cellHeight - scrollY;
 
     // Draw header background
-    ctx.fillStyle = '#c0c0c0';
+    ctx.fillStyle = HEADER_FILL;
     ctx.fillRect(x, y, headerWidth, cellHeight);
 
     // Draw border
-    ctx.strokeStyle = '#808080';
+    ctx.strokeStyle = HEADER_BORDER;
     ctx.strokeRect(x, y, headerWidth, cellHeight);
 
     // Draw text
-    ctx.fillStyle = '#000000';
-    ctx.fillText(String(i + 1), x + headerWidth / 2, y + cellHeight / 2);
+    if (cellHeight >= HEADER_FONT_SIZE) {
+      ctx.fillStyle = '#000000';
+      ctx.fillText(String(i + 1), x + headerWidth / 2, y + cellHeight / 2);
+    }
   }
 }
 
@@ -188,13 +350,13 @@ export function drawRowHeaders(
  * Draw corner header cell (top-left)
  */
 export function drawCornerHeader(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   headerWidth: number,
   headerHeight: number
 ): void {
-  ctx.fillStyle = '#c0c0c0';
+  ctx.fillStyle = HEADER_FILL;
   ctx.fillRect(0, 0, headerWidth, headerHeight);
-  ctx.strokeStyle = '#808080';
+  ctx.strokeStyle = HEADER_BORDER;
   ctx.lineWidth = 1;
   ctx.strokeRect(0, 0, headerWidth, headerHeight);
 }
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveCellColors } from './cellColors';
+import { createDefaultConfig } from './density';
+import { ImageSampler } from './imageSampler';
+import { PaletteQuantizer, createGrayscaleRamp } from './palette';
+import type { DitherMode, Rgb, SubdividedCell } from '../types/spreadsheet';
+import type { RenderFrame } from './renderer';
+
+const config = createDefaultConfig();
+const GRID = 8;
+
+// Mid gray image covering the whole GRID x GRID block of base cells
+function createFrame(dither: DitherMode, quantizer: PaletteQuantizer | null): RenderFrame {
+  const data = new Uint8ClampedArray(4 * 4 * 4).fill(128);
+  return {
+    config,
+    sampler: new ImageSampler({ width: 4, height: 4, data } as ImageData),
+    imageBounds: { x: 0, y: 0, width: GRID * config.baseCellWidth, height: GRID * config.baseCellHeight },
+    sampling: 'center',
+    quantizer,
+    dither,
+  } as RenderFrame;
+}
+
+// Base cells of the block, the left half split into quarters so levels meet in the middle
+function createCells(): SubdividedCell[] {
+  const { baseCellWidth: width, baseCellHeight: height } = config;
+  const cells: SubdividedCell[] = [];
+  for (let baseY = 0; baseY < GRID; baseY++) {
+    for (let baseX = 0; baseX < GRID; baseX++) {
+      const x = baseX * width;
+      const y = baseY * height;
+      if (baseX >= GRID / 2) {
+        cells.push({ x, y, width, height, level: 0, baseX, baseY });
+        continue;
+      }
+      for (let i = 0; i < 4; i++) {
+        cells.push({
+          x: x + ((i % 2) * width) / 2,
+          y: y + (Math.floor(i / 2) * height) / 2,
+          width: width / 2,
+          height: height / 2,
+          level: 2,
+          baseX,
+          baseY,
+        });
+      }
+    }
+  }
+  return cells;
+}
+
+// Area-weighted mean of the red channel over some of the cells
+function meanValue(
+  cells: SubdividedCell[],
+  colors: Array<Rgb | null>,
+  filter: (cell: SubdividedCell) => boolean
+): number {
+  let sum = 0;
+  let area = 0;
+  cells.forEach((cell, i) => {
+    if (!filter(cell)) return;
+    sum += (colors[i] as Rgb)[0] * cell.width * cell.height;
+    area += cell.width * cell.height;
+  });
+  return sum / area;
+}
+
+describe('resolveCellColors', () => {
+  const blackAndWhite = new PaletteQuantizer(createGrayscaleRamp(2));
+  const cells = createCells();
+  const fine = (cell: SubdividedCell) => cell.level > 0;
+  const coarse = (cell: SubdividedCell) => cell.level === 0;
+
+  test('keeps sampled colors without a palette, null without an image', () => {
+    expect(resolveCellColors(cells.slice(0, 2), createFrame('none', null))).toEqual([
+      [128, 128, 128],
+      [128, 128, 128],
+    ]);
+    expect(resolveCellColors(cells.slice(0, 2), { ...createFrame('none', null), sampler: null })).toEqual([null, null]);
+  });
+
+  test('snaps every cell to the nearest color without dithering', () => {
+    const colors = resolveCellColors(cells, createFrame('none', blackAndWhite));
+    expect(colors.every((color) => color?.[0] === 255)).toBe(true);
+  });
+
+  test('ordered dithering mixes the palette to the source tone', () => {
+    const colors = resolveCellColors(cells, createFrame('ordered', blackAndWhite));
+    expect(meanValue(cells, colors, fine)).toBeCloseTo(127.5, 0);
+    expect(meanValue(cells, colors, coarse)).toBeCloseTo(127.5, 0);
+  });
+
+  test('error diffusion keeps the tone on both sides of a level boundary', () => {
+    const colors = resolveCellColors(cells, createFrame('error-diffusion', blackAndWhite));
+    expect(colors.every((color) => color?.[0] === 0 || color?.[0] === 255)).toBe(true);
+    expect(Math.abs(meanValue(cells, colors, fine) - 128)).toBeLessThan(16);
+    expect(Math.abs(meanValue(cells, colors, coarse) - 128)).toBeLessThan(16);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Image colors for final cells
+ *
+ * Samples each cell's color from the inserted image, then optionally reduces
+ * it to the scene palette. Dithering works on cells rather than pixels:
+ * ordered dithering indexes a Bayer matrix by each cell's position in a grid
+ * of its own size, error diffusion walks the cells in reading order and
+ * passes error on by area, so it crosses between cells of different levels.
+ */
+
+import type { CellBounds, Config, DitherMode, Rgb, SubdividedCell } from '../types/spreadsheet';
+import type { PaletteQuantizer } from './palette';
+import type { RenderFrame } from './renderer';
+
+// 4x4 Bayer threshold matrix, values 0 to 15
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Floyd-Steinberg weights as [dx, dy, weight] in cell sizes: right, below-left, below, below-right
+const ERROR_NEIGHBORS: Array<[number, number, number]> = [
+  [1, 0, 7 / 16],
+  [-1, 1, 3 / 16],
+  [0, 1, 5 / 16],
+  [1, 1, 1 / 16],
+];
+
+// Error diffusion keeps its error on a grid this many times finer than the base cells, per axis
+const ERROR_GRID = 4;
+
+// Key of an error grid unit: column * stride + row, rows stay below the stride
+const ERROR_KEY_STRIDE = 1 << 24;
+
+/**
+ * Colors of the given cells, null for cells outside the image
+ */
+export function resolveCellColors(cells: SubdividedCell[], frame: RenderFrame): Array<Rgb | null> {
+  const { sampler, imageBounds, sampling, quantizer, dither, config } = frame;
+  if (!sampler || !imageBounds) {
+    return cells.map(() => null);
+  }
+
+  const colors = cells.map((cell) => sampler.sampleCell(cell, imageBounds, sampling));
+  if (!quantizer) {
+    return colors;
+  }
+
+  switch (dither) {
+    case 'ordered':
+      return orderedDither(cells, colors, quantizer);
+    case 'error-diffusion':
+      return errorDiffuse(cells, colors, quantizer, config);
+    case 'none':
+    default:
+      return colors.map((color) => color && quantizer.nearest(...color));
+  }
+}
+
+function orderedDither(cells: CellBounds[], colors: Array<Rgb | null>, quantizer: PaletteQuantizer): Array<Rgb | null> {
+  return colors.map((color, i) => {
+    if (!color) return null;
+
+    // Leaves sit on a grid of their own size, so this index is an integer
+    const cell = cells[i];
+    const column = Math.round(cell.x / cell.width);
+    const row = Math.round(cell.y / cell.height);
+    const threshold = (BAYER_4[(row & 3) * 4 + (column & 3)] + 0.5) / 16 - 0.5;
+    const offset = threshold * quantizer.spread;
+
+    return quantizer.nearest(color[0] + offset, color[1] + offset, color[2] + offset);
+  });
+}
+
+function errorDiffuse(
+  cells: CellBounds[],
+  colors: Array<Rgb | null>,
+  quantizer: PaletteQuantizer,
+  config: Config
+): Array<Rgb | null> {
+  const result: Array<Rgb | null> = colors.map(() => null);
+
+  // Reading order: top to bottom, then left to right
+  const order = colors
+    .map((color, i) => (color ? i : -1))
+    .filter((i) => i >= 0)
+    .sort((a, b) => cells[a].y - cells[b].y || cells[a].x - cells[b].x);
+
+  // Error waiting to be picked up, per unit of a grid finer than the base cells
+  // Cells take and pass on error by how much of each unit they overlap, so it
+  // flows between cells of different levels instead of only between equal ones
+  const unitWidth = config.baseCellWidth / ERROR_GRID;
+  const unitHeight = config.baseCellHeight / ERROR_GRID;
+  const pending = new Map<number, Rgb>();
+
+  // Units a rectangle overlaps, with the overlapping area of each
+  const forEachUnit = (bounds: CellBounds, visit: (key: number, overlap: number) => void) => {
+    const { x, y, width, height } = bounds;
+    const firstColumn = Math.max(0, Math.floor(x / unitWidth));
+    const lastColumn = Math.ceil((x + width) / unitWidth);
+    const firstRow = Math.max(0, Math.floor(y / unitHeight));
+    const lastRow = Math.ceil((y + height) / unitHeight);
+
+    for (let column = firstColumn; column < lastColumn; column++) {
+      const overlapX = Math.min(x + width, (column + 1) * unitWidth) - Math.max(x, column * unitWidth);
+      for (let row = firstRow; row < lastRow; row++) {
+        const overlapY = Math.min(y + height, (row + 1) * unitHeight) - Math.max(y, row * unitHeight);
+        if (overlapX > 0 && overlapY > 0) {
+          visit(column * ERROR_KEY_STRIDE + row, overlapX * overlapY);
+        }
+      }
+    }
+  };
+
+  for (const i of order) {
+    const cell = cells[i];
+    const target: Rgb = [...(colors[i] as Rgb)];
+
+    // Take the share of each unit's error the cell covers
+    forEachUnit(cell, (key, overlap) => {
+      const error = pending.get(key);
+      if (!error) return;
+      const share = Math.min(1, overlap / (unitWidth * unitHeight));
+      for (let c = 0; c < 3; c++) {
+        target[c] += error[c] * share;
+        error[c] *= 1 - share;
+      }
+      if (share >= 1) pending.delete(key);
+    });
+
+    const quantized = quantizer.nearest(...target);
+    result[i] = quantized;
+
+    // Error is measured against the clamped target so it cannot run away
+    const error = target.map((value, c) => Math.max(0, Math.min(255, value)) - quantized[c]);
+
+    // Neighbors are cell-sized areas beside and below, whatever cells end up covering them
+    for (const [dx, dy, weight] of ERROR_NEIGHBORS) {
+      const neighbor: CellBounds = {
+        x: cell.x + dx * cell.width,
+        y: cell.y + dy * cell.height,
+        width: cell.width,
+        height: cell.height,
+      };
+      const area = cell.width * cell.height;
+      forEachUnit(neighbor, (key, overlap) => {
+        const share = (weight * overlap) / area;
+        const current = pending.get(key);
+        if (current) {
+          for (let c = 0; c < 3; c++) current[c] += error[c] * share;
+        } else {
+          pending.set(key, [error[0] * share, error[1] * share, error[2] * share]);
+        }
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { CellSheet } from './cellSheet';
+import type { CellAddress, CellEntry } from '../types/spreadsheet';
+
+const entry = (col: number, row: number, input: string): CellEntry => ({ col, row, input });
+
+// Sheet whose density reads are counted per cell
+function createSheet() {
+  const reads = new Map<string, number>();
+  const sheet = new CellSheet({
+    getDensity: ({ col, row }: CellAddress) => {
+      const key = `${col}:${row}`;
+      reads.set(key, (reads.get(key) ?? 0) + 1);
+      return 0.5;
+    },
+    getLevel: () => 0,
+  });
+  return { sheet, reads };
+}
+
+const textAt = (sheet: CellSheet, col: number, row: number) =>
+  sheet.getDisplayedCells().find((cell) => cell.col === col && cell.row === row)?.text;
+
+describe('CellSheet', () => {
+  test('evaluates formulas in dependency order', () => {
+    const { sheet } = createSheet();
+    sheet.setEntries([entry(0, 2, '=A2*2'), entry(0, 1, '=A1+1'), entry(0, 0, '4')]);
+
+    expect(textAt(sheet, 0, 1)).toBe('5');
+    expect(textAt(sheet, 0, 2)).toBe('10');
+  });
+
+  test('marks cycles and the cells reading them as #CIRC!', () => {
+    const { sheet } = createSheet();
+    sheet.setEntries([entry(0, 0, '=B1'), entry(1, 0, '=A1'), entry(2, 0, '=A1+1'), entry(3, 0, '7')]);
+
+    expect(textAt(sheet, 0, 0)).toBe('#CIRC!');
+    expect(textAt(sheet, 1, 0)).toBe('#CIRC!');
+    expect(textAt(sheet, 2, 0)).toBe('#CIRC!');
+    expect(textAt(sheet, 3, 0)).toBe('7');
+
+    // Breaking the cycle recovers every cell on and after it
+    sheet.setEntries([entry(0, 0, '=B1'), entry(1, 0, '1'), entry(2, 0, '=A1+1'), entry(3, 0, '7')]);
+    expect(textAt(sheet, 0, 0)).toBe('1');
+    expect(textAt(sheet, 2, 0)).toBe('2');
+  });
+
+  test('setEntries recalculates only the cells downstream of a change', () => {
+    const { sheet, reads } = createSheet();
+    const upstream = [entry(0, 0, '1'), entry(0, 1, '=A1+DENSITY(Z1)')];
+    const unrelated = entry(1, 0, '=DENSITY(Z2)');
+    sheet.setEntries([...upstream, unrelated]);
+    expect(reads.get('25:0')).toBe(1);
+    expect(reads.get('25:1')).toBe(1);
+
+    sheet.setEntries([entry(0, 0, '2'), upstream[1], unrelated]);
+    expect(reads.get('25:0')).toBe(2);
+    expect(reads.get('25:1')).toBe(1);
+    expect(textAt(sheet, 0, 1)).toBe('2.5');
+  });
+
+  test('drives densities only with results between 0 and 1', () => {
+    const { sheet } = createSheet();
+    sheet.setEntries([
+      { ...entry(0, 0, '=0.25'), drivesDensity: true },
+      { ...entry(1, 0, '=2'), drivesDensity: true },
+      { ...entry(2, 0, '=DENSITY(A1)'), drivesDensity: false },
+      { ...entry(3, 0, '0.5'), drivesDensity: true },
+    ]);
+
+    expect(sheet.getDrivenDensities()).toEqual([{ col: 0, row: 0, value: 0.25 }]);
+  });
+
+  test('refresh recalculates formulas reading the density field', () => {
+    const { sheet, reads } = createSheet();
+    sheet.setEntries([entry(0, 0, '=DENSITY(C3)'), entry(1, 0, '=1+1')]);
+    sheet.refresh();
+    sheet.refresh();
+
+    expect(reads.get('2:2')).toBe(3);
+  });
+});
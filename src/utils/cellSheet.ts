@@ -0,0 +1,233 @@
+/**
+ * Cell contents of the sheet
+ *
+ * Holds what was typed into each base cell and keeps formula results up to
+ * date. Formulas are linked to the cells they read in a dependency graph, so
+ * an edit only recalculates the cells downstream of it, in dependency order.
+ * Cells on a reference cycle (and everything that reads them) show #CIRC!.
+ */
+
+import type { CellAddress, CellEntry, CellValue } from '../types/spreadsheet';
+import {
+  FormulaError,
+  parseFormula,
+  evaluateFormula,
+  collectReferences,
+  isVolatile,
+  formatFormulaValue,
+  type FormulaContext,
+  type FormulaNode,
+  type FormulaValue,
+} from './formula';
+
+/**
+ * Density field the DENSITY and LEVEL functions read
+ */
+export type CellDensityReader = Pick<FormulaContext, 'getDensity' | 'getLevel'>;
+
+/**
+ * A cell's result as it is drawn on the sheet
+ */
+export interface DisplayedCell extends CellAddress {
+  text: string;
+  align: 'left' | 'right'; // Numbers are right-aligned, like Excel
+}
+
+interface SheetCell {
+  entry: CellEntry;
+  formula: FormulaNode | null;
+  precedents: string[]; // Keys of the cells the formula reads
+  value: FormulaValue | null;
+}
+
+const CIRCULAR = new FormulaError('#CIRC!');
+
+const cellKey = (cell: CellAddress): string => `${cell.col}:${cell.row}`;
+
+/**
+ * Value of a typed constant: a number if it reads as one, otherwise text
+ */
+function parseConstant(input: string): FormulaValue | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed);
+  return Number.isFinite(number) ? number : input;
+}
+
+export class CellSheet {
+  private cells = new Map<string, SheetCell>();
+  // Formula cells reading each cell, by key
+  private dependents = new Map<string, Set<string>>();
+  // Formula cells reading the density field
+  private volatileKeys = new Set<string>();
+  private context: FormulaContext;
+
+  constructor(reader: CellDensityReader) {
+    this.context = {
+      ...reader,
+      getValue: (cell) => this.cells.get(cellKey(cell))?.value ?? null,
+    };
+  }
+
+  /**
+   * Replace the sheet's contents
+   * Only cells whose input changed, and the formulas reading them, are recalculated
+   */
+  setEntries(entries: CellEntry[]): void {
+    const next = new Map(entries.map((entry) => [cellKey(entry), entry]));
+    const changed: string[] = [];
+
+    for (const key of this.cells.keys()) {
+      if (!next.has(key)) {
+        this.removeCell(key);
+        changed.push(key);
+      }
+    }
+
+    for (const [key, entry] of next) {
+      const cell = this.cells.get(key);
+      if (cell && cell.entry.input === entry.input) {
+        cell.entry = entry;
+        continue;
+      }
+      this.removeCell(key);
+      this.addCell(key, entry);
+      changed.push(key);
+    }
+
+    this.recalculate(changed);
+  }
+
+  /**
+   * Recalculate formulas that read the density field, once per frame
+   */
+  refresh(): void {
+    if (this.volatileKeys.size > 0) {
+      this.recalculate(this.volatileKeys);
+    }
+  }
+
+  /**
+   * Non-empty results, formatted for drawing
+   */
+  getDisplayedCells(): DisplayedCell[] {
+    const displayed: DisplayedCell[] = [];
+    for (const { entry, value } of this.cells.values()) {
+      const text = formatFormulaValue(value);
+      if (text) {
+        const align = typeof value === 'number' ? 'right' : 'left';
+        displayed.push({ col: entry.col, row: entry.row, text, align });
+      }
+    }
+    return displayed;
+  }
+
+  /**
+   * Densities set by formulas that drive their cell
+   * Results outside 0-1 (or not numbers) leave the cell's density alone
+   */
+  getDrivenDensities(): CellValue[] {
+    const values: CellValue[] = [];
+    for (const { entry, formula, value } of this.cells.values()) {
+      if (entry.drivesDensity && formula && typeof value === 'number' && value >= 0 && value <= 1) {
+        values.push({ col: entry.col, row: entry.row, value });
+      }
+    }
+    return values;
+  }
+
+  private addCell(key: string, entry: CellEntry): void {
+    const input = entry.input.trim();
+    let formula: FormulaNode | null = null;
+    let value: FormulaValue | null = parseConstant(entry.input);
+
+    if (input.startsWith('=')) {
+      const parsed = parseFormula(input.slice(1));
+      if (parsed instanceof FormulaError) {
+        value = parsed;
+      } else {
+        formula = parsed;
+        value = null;
+      }
+    }
+
+    const precedents = formula ? [...new Set(collectReferences(formula).map(cellKey))] : [];
+    this.cells.set(key, { entry, formula, precedents, value });
+
+    for (const precedent of precedents) {
+      let dependents = this.dependents.get(precedent);
+      if (!dependents) {
+        dependents = new Set();
+        this.dependents.set(precedent, dependents);
+      }
+      dependents.add(key);
+    }
+    if (formula && isVolatile(formula)) {
+      this.volatileKeys.add(key);
+    }
+  }
+
+  private removeCell(key: string): void {
+    const cell = this.cells.get(key);
+    if (!cell) return;
+
+    for (const precedent of cell.precedents) {
+      const dependents = this.dependents.get(precedent);
+      dependents?.delete(key);
+      if (dependents?.size === 0) {
+        this.dependents.delete(precedent);
+      }
+    }
+    this.volatileKeys.delete(key);
+    this.cells.delete(key);
+  }
+
+  /**
+   * Re-evaluate the formulas downstream of the given cells
+   *
+   * Formulas are ordered with Kahn's algorithm: a formula is evaluated once
+   * every affected formula it reads has been. Whatever never becomes ready
+   * sits on a cycle or reads from one.
+   */
+  private recalculate(seeds: Iterable<string>): void {
+    const affected = new Set<string>();
+    const queue = [...seeds];
+    while (queue.length > 0) {
+      const key = queue.pop() as string;
+      if (affected.has(key)) continue;
+      affected.add(key);
+      queue.push(...(this.dependents.get(key) ?? []));
+    }
+
+    // Affected formulas, with how many affected formulas each still waits on
+    const waiting = new Map<string, number>();
+    for (const key of affected) {
+      const cell = this.cells.get(key);
+      if (!cell?.formula) continue;
+      const count = cell.precedents.filter(
+        (precedent) => affected.has(precedent) && this.cells.get(precedent)?.formula
+      ).length;
+      waiting.set(key, count);
+    }
+
+    const ready = [...waiting].filter(([, count]) => count === 0).map(([key]) => key);
+    while (ready.length > 0) {
+      const key = ready.pop() as string;
+      waiting.delete(key);
+
+      const cell = this.cells.get(key) as SheetCell;
+      cell.value = evaluateFormula(cell.formula as FormulaNode, this.context);
+
+      for (const dependent of this.dependents.get(key) ?? []) {
+        const count = waiting.get(dependent);
+        if (count === undefined) continue;
+        waiting.set(dependent, count - 1);
+        if (count === 1) ready.push(dependent);
+      }
+    }
+
+    for (const key of waiting.keys()) {
+      (this.cells.get(key) as SheetCell).value = CIRCULAR;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { getColumnLabel, parseColumnLabel } from './canvas';
+import { buildSheetTable } from './dataExport';
+import { createDefaultConfig } from './density';
+import { DensitySimulation } from './simulation';
+import type { DataExportOptions } from '../types/spreadsheet';
+import type { RenderFrame } from './renderer';
+
+const config = createDefaultConfig();
+
+// Frame without an image, over a simulation showing cells col..col+2, row..row+1
+function createFrame(col: number, row: number): RenderFrame {
+  const simulation = new DensitySimulation(config, { columns: 3, rows: 2 });
+  simulation.setWindow({ col, row, columns: 3, rows: 2 });
+  return { simulation, config, sampler: null, imageBounds: null, quantizer: null } as RenderFrame;
+}
+
+const options = (overrides: Partial<DataExportOptions> = {}): DataExportOptions => ({
+  format: 'csv',
+  levels: false,
+  colors: false,
+  range: 'visible',
+  ...overrides,
+});
+
+const rowsOf = (table: string, delimiter = ',') =>
+  table
+    .split('\r\n')
+    .slice(0, -1)
+    .map((line) => line.split(delimiter));
+
+describe('getColumnLabel', () => {
+  test('names columns like the sheet headers, past Z and ZZ', () => {
+    expect([0, 25, 26, 51, 52, 701, 702, 255].map(getColumnLabel)).toEqual([
+      'A',
+      'Z',
+      'AA',
+      'AZ',
+      'BA',
+      'ZZ',
+      'AAA',
+      'IV',
+    ]);
+  });
+
+  test('round trips through parseColumnLabel', () => {
+    for (let index = 0; index < 20000; index += 37) {
+      expect(parseColumnLabel(getColumnLabel(index))).toBe(index);
+    }
+    expect(parseColumnLabel('a1')).toBeNull();
+  });
+});
+
+describe('buildSheetTable', () => {
+  test('labels the visible cells with their column letters and row numbers', () => {
+    const frame = createFrame(24, 9);
+    frame.simulation.setDensities([{ col: 25, row: 10, value: 0.5 }]);
+
+    expect(rowsOf(buildSheetTable(frame, options()))).toEqual([
+      ['Density', 'Y', 'Z', 'AA'],
+      ['10', '0', '0', '0'],
+      ['11', '0', '0.5', '0'],
+    ]);
+  });
+
+  test('covers painted cells that are scrolled out of view', () => {
+    const frame = createFrame(0, 0);
+    frame.simulation.setDensities([
+      { col: 1, row: 0, value: 0.25 },
+      { col: 27, row: 3, value: 1 },
+    ]);
+
+    const rows = rowsOf(buildSheetTable(frame, options({ range: 'painted', format: 'tsv' })), '\t');
+    expect(rows[0]).toEqual(['Density', ...Array.from({ length: 27 }, (_, i) => getColumnLabel(i + 1))]);
+    expect(rows.map((fields) => fields[0])).toEqual(['Density', '1', '2', '3', '4']);
+    expect(rows[1][1]).toBe('0.25');
+    expect(rows[4][27]).toBe('1');
+  });
+
+  test('adds level and color grids under a blank row', () => {
+    const frame = createFrame(0, 0);
+    frame.simulation.setDensities([{ col: 0, row: 0, value: 1 }]);
+
+    const rows = rowsOf(buildSheetTable(frame, options({ levels: true, colors: true })));
+    expect(rows.map((fields) => fields[0])).toEqual([
+      ...['Density', '1', '2', ''],
+      ...['Level', '1', '2', ''],
+      ...['Color', '1', '2'],
+    ]);
+    expect(Number(rows[5][1])).toBeGreaterThan(0);
+    expect(rows[9]).toEqual(['1', '', '', '']);
+  });
+
+  test('explains why nothing can be exported', () => {
+    expect(() => buildSheetTable(createFrame(0, 0), options({ range: 'painted' }))).toThrow('No cells are painted');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * CSV / TSV export of per-cell values
+ *
+ * Each value is written as a grid of base cells, labelled with the same
+ * column letters and row numbers as the sheet headers, so the file opens in
+ * a spreadsheet as the same grid. Several values become several grids,
+ * separated by a blank row.
+ */
+
+import type { DataExportOptions, SubdividedCell } from '../types/spreadsheet';
+import { getColumnLabel } from './canvas';
+import { resolveCellColors } from './cellColors';
+import type { RenderFrame } from './renderer';
+
+interface CellRange {
+  firstColumn: number;
+  lastColumn: number;
+  firstRow: number;
+  lastRow: number;
+}
+
+const DELIMITERS = { csv: ',', tsv: '\t' };
+
+// Digits kept for densities, enough to tell every 8-bit shade apart
+const DENSITY_DIGITS = 4;
+
+function toHex(value: number): string {
+  return Math.round(value).toString(16).padStart(2, '0');
+}
+
+/**
+ * Quote a field if it contains the delimiter, a quote or a line break
+ */
+function formatField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Smallest range holding every painted cell, on screen or not, or null if nothing is painted
+ */
+function getPaintedRange(frame: RenderFrame): CellRange | null {
+  let range: CellRange | null = null;
+
+  for (const { col, row } of frame.simulation.getPaintedCells()) {
+    if (range) {
+      range.firstColumn = Math.min(range.firstColumn, col);
+      range.lastColumn = Math.max(range.lastColumn, col);
+      range.firstRow = Math.min(range.firstRow, row);
+      range.lastRow = Math.max(range.lastRow, row);
+    } else {
+      range = { firstColumn: col, lastColumn: col, firstRow: row, lastRow: row };
+    }
+  }
+  return range;
+}
+
+/**
+ * Color of every base cell in the range as #rrggbb, sampled like the renderer
+ * Cells outside the image are left empty
+ */
+function sampleBaseCellColors(frame: RenderFrame, range: CellRange): string[][] {
+  const { simulation } = frame;
+  const cells: SubdividedCell[] = [];
+  for (let row = range.firstRow; row <= range.lastRow; row++) {
+    for (let col = range.firstColumn; col <= range.lastColumn; col++) {
+      cells.push(simulation.getBaseCell(col, row));
+    }
+  }
+
+  const colors = resolveCellColors(cells, frame).map((color) =>
+    color ? `#${color.map(toHex).join('')}` : ''
+  );
+
+  const width = range.lastColumn - range.firstColumn + 1;
+  const grid: string[][] = [];
+  for (let i = 0; i < colors.length; i += width) {
+    grid.push(colors.slice(i, i + width));
+  }
+  return grid;
+}
+
+/**
+ * Build a CSV or TSV table of base cells: the visible ones, or the bounding box
+ * of every painted cell including those scrolled out of view
+ * Throws an Error when the range holds no cells
+ */
+export function buildSheetTable(frame: RenderFrame, options: DataExportOptions): string {
+  const { simulation } = frame;
+  const { col, row, columns, rows } = simulation.window;
+  const delimiter = DELIMITERS[options.format];
+
+  const range =
+    options.range === 'painted'
+      ? getPaintedRange(frame)
+      : { firstColumn: col, lastColumn: col + columns - 1, firstRow: row, lastRow: row + rows - 1 };
+  if (!range) {
+    throw new Error('No cells are painted');
+  }
+  if (options.range === 'visible' && (columns === 0 || rows === 0)) {
+    throw new Error('No cells are visible');
+  }
+
+  const grids: { label: string; value: (col: number, row: number) => string }[] = [
+    {
+      label: 'Density',
+      value: (col, row) => String(Number(simulation.getDensity(col, row).toFixed(DENSITY_DIGITS))),
+    },
+  ];
+  if (options.levels) {
+    grids.push({ label: 'Level', value: (col, row) => String(simulation.getSubdivisionLevel(col, row)) });
+  }
+  if (options.colors) {
+    const colors = sampleBaseCellColors(frame, range);
+    grids.push({
+      label: 'Color',
+      value: (col, row) => colors[row - range.firstRow][col - range.firstColumn],
+    });
+  }
+
+  const lines: string[] = [];
+  grids.forEach((grid, i) => {
+    if (i > 0) lines.push('');
+
+    // Header row: the value's name in the corner, then column letters
+    const header = [grid.label];
+    for (let col = range.firstColumn; col <= range.lastColumn; col++) {
+      header.push(getColumnLabel(col));
+    }
+    lines.push(header.map((field) => formatField(field, delimiter)).join(delimiter));
+
+    for (let row = range.firstRow; row <= range.lastRow; row++) {
+      const fields = [String(row + 1)];
+      for (let col = range.firstColumn; col <= range.lastColumn; col++) {
+        fields.push(grid.value(col, row));
+      }
+      lines.push(fields.map((field) => formatField(field, delimiter)).join(delimiter));
+    }
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
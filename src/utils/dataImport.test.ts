@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeCellValues, parseDataTable } from './dataImport';
+import type { CellValue } from '../types/spreadsheet';
+
+const values = (cells: CellValue[]) => cells.map((cell) => cell.value);
+
+describe('parseDataTable', () => {
+  test('places a plain table at A1', () => {
+    expect(parseDataTable('1,2\n3,4\n')).toEqual([
+      { col: 0, row: 0, value: 1 },
+      { col: 1, row: 0, value: 2 },
+      { col: 0, row: 1, value: 3 },
+      { col: 1, row: 1, value: 4 },
+    ]);
+  });
+
+  test('skips a header row and a label column', () => {
+    expect(parseDataTable('city;jan;feb\r\nOslo;1;2\r\n"Rome, IT";3;x\r\n')).toEqual([
+      { col: 0, row: 0, value: 1 },
+      { col: 1, row: 0, value: 2 },
+      { col: 0, row: 1, value: 3 },
+    ]);
+  });
+
+  test('lands exported tables on their labelled cells and reads only the first grid', () => {
+    const table = 'Density\tY\tAA\n10\t0.5\t\n12\t\t1\n\nLevel\tY\tAA\n10\t3\t3\n';
+    expect(parseDataTable(table)).toEqual([
+      { col: 24, row: 9, value: 0.5 },
+      { col: 26, row: 11, value: 1 },
+    ]);
+  });
+
+  test('does not mistake lower case headers for column letters', () => {
+    expect(parseDataTable('x,y\n5,6\n')).toEqual([
+      { col: 0, row: 0, value: 5 },
+      { col: 1, row: 0, value: 6 },
+    ]);
+  });
+
+  test('rejects files without numbers', () => {
+    expect(() => parseDataTable('\n \n')).toThrow('The file is empty');
+    expect(() => parseDataTable('a,b\nc,d\n')).toThrow('No numbers found in the file');
+  });
+});
+
+describe('normalizeCellValues', () => {
+  const cells = (...numbers: number[]) => numbers.map((value, col) => ({ col, row: 0, value }));
+
+  test('minmax maps the range onto 0 to 1', () => {
+    expect(values(normalizeCellValues(cells(10, 15, 20), 'minmax'))).toEqual([0, 0.5, 1]);
+  });
+
+  test('percentile clamps outliers', () => {
+    const data = cells(...Array.from({ length: 21 }, (_, i) => i), 1000);
+    const normalized = values(normalizeCellValues(data, 'percentile'));
+
+    expect(normalized[0]).toBe(0);
+    expect(normalized[21]).toBe(1);
+    expect(normalized[10]).toBeGreaterThan(0.4);
+    expect(normalized[10]).toBeLessThan(0.6);
+  });
+
+  test('log spaces orders of magnitude evenly', () => {
+    const normalized = values(normalizeCellValues(cells(1, 10, 100, 1000), 'log'));
+    [0, 1 / 3, 2 / 3, 1].forEach((expected, i) => expect(normalized[i]).toBeCloseTo(expected, 10));
+
+    const shifted = values(normalizeCellValues(cells(-1, 0, 9), 'log'));
+    expect(shifted[0]).toBe(0);
+    expect(shifted[2]).toBe(1);
+  });
+
+  test('maps a table of equal values to 1, or 0 when they are all 0', () => {
+    expect(values(normalizeCellValues(cells(7, 7), 'minmax'))).toEqual([1, 1]);
+    expect(values(normalizeCellValues(cells(0, 0), 'log'))).toEqual([0, 0]);
+  });
+
+  test('keeps cell positions', () => {
+    const [cell] = normalizeCellValues([{ col: 3, row: 8, value: 2 }], 'minmax');
+    expect(cell).toEqual({ col: 3, row: 8, value: 1 });
+  });
+});
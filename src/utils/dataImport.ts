@@ -0,0 +1,185 @@
+/**
+ * CSV / TSV import of cell values
+ *
+ * Reads a table of numbers and places it on the sheet. Tables labelled like
+ * the sheet (column letters across the top, row numbers down the side, as
+ * written by Export Data) land on the labelled cells; other tables start at
+ * A1, skipping a header row or label column if they have one. Values are
+ * then normalized to densities between 0 and 1.
+ */
+
+import type { CellValue, DataNormalization } from '../types/spreadsheet';
+import { parseColumnLabel } from './canvas';
+
+// Share of values clipped at each end by percentile normalization
+const PERCENTILE_CLIP = 0.05;
+
+/**
+ * Guess the delimiter from the first line: tab, comma or semicolon
+ */
+function detectDelimiter(line: string): string {
+  const counts = ['\t', ',', ';'].map((delimiter) => ({
+    delimiter,
+    count: line.split(delimiter).length - 1,
+  }));
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+/**
+ * Split delimited text into rows of fields, honoring double-quoted fields
+ */
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseNumber(field: string | undefined): number | null {
+  const trimmed = field?.trim() ?? '';
+  if (!trimmed) return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+const isBlankRow = (row: string[]) => row.every((field) => !field.trim());
+
+/**
+ * Parse a CSV or TSV table into raw cell values
+ * Only the first table is read, a blank line after it ends the data
+ * Throws an Error when the text holds no numbers
+ */
+export function parseDataTable(text: string): CellValue[] {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim()) ?? '';
+  const allRows = parseRows(text, detectDelimiter(firstLine));
+
+  // The first block of non-blank rows
+  const start = allRows.findIndex((row) => !isBlankRow(row));
+  if (start < 0) {
+    throw new Error('The file is empty');
+  }
+  let end = start;
+  while (end < allRows.length && !isBlankRow(allRows[end])) end++;
+  const rows = allRows.slice(start, end);
+
+  // Column letters across the top mean the sheet's own layout
+  // (upper case and increasing, so a header like "x,y,z" is not mistaken for them)
+  const header = rows[0];
+  const labelIndices = header
+    .slice(1)
+    .map((field) => field.trim())
+    .filter((field) => field)
+    .map((field) => (/^[A-Z]{1,3}$/.test(field) ? parseColumnLabel(field) : null));
+  const hasColumnLabels =
+    labelIndices.length > 0 &&
+    labelIndices.every((index, i) => index !== null && index > (labelIndices[i - 1] ?? -1));
+  const hasHeaderRow = hasColumnLabels || header.some((field) => field.trim() && parseNumber(field) === null);
+  const dataRows = hasHeaderRow ? rows.slice(1) : rows;
+
+  // A first column of text (or of row numbers next to column letters) is labels
+  const hasLabelColumn =
+    hasColumnLabels ||
+    (dataRows.length > 0 && dataRows.every((row) => !row[0]?.trim() || parseNumber(row[0]) === null));
+
+  const columnOf = (field: number): number | null => {
+    if (hasColumnLabels) return parseColumnLabel(header[field] ?? '');
+    return hasLabelColumn ? field - 1 : field;
+  };
+
+  const cells: CellValue[] = [];
+  dataRows.forEach((fields, i) => {
+    let row = i;
+    if (hasColumnLabels) {
+      const number = parseNumber(fields[0]);
+      if (number !== null && Number.isInteger(number) && number >= 1) {
+        row = number - 1;
+      }
+    }
+
+    for (let field = hasLabelColumn ? 1 : 0; field < fields.length; field++) {
+      const value = parseNumber(fields[field]);
+      const col = columnOf(field);
+      if (value !== null && col !== null) {
+        cells.push({ col, row, value });
+      }
+    }
+  });
+
+  if (cells.length === 0) {
+    throw new Error('No numbers found in the file');
+  }
+  return cells;
+}
+
+/**
+ * Value at fraction p of the sorted values, interpolating between neighbors
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Scale values into densities between 0 and 1
+ *
+ * minmax maps the smallest value to 0 and the largest to 1. percentile does
+ * the same between the 5th and 95th percentile, clamping outliers. log maps
+ * on a logarithmic scale from the smallest value, for data spanning orders
+ * of magnitude. A table of equal values maps to 1 (0 if they are all 0).
+ */
+export function normalizeCellValues(cells: CellValue[], mode: DataNormalization): CellValue[] {
+  const sorted = cells.map((cell) => cell.value).sort((a, b) => a - b);
+  const clip = mode === 'percentile' ? PERCENTILE_CLIP : 0;
+  const min = percentile(sorted, clip);
+  const max = percentile(sorted, 1 - clip);
+
+  const scale = (value: number): number => {
+    if (max === min) return value === 0 ? 0 : 1;
+    if (mode === 'log') {
+      // Ratios for positive data, otherwise shifted so the smallest value is 0
+      return min > 0
+        ? Math.log(value / min) / Math.log(max / min)
+        : Math.log1p(value - min) / Math.log1p(max - min);
+    }
+    return (value - min) / (max - min);
+  };
+
+  return cells.map((cell) => ({ ...cell, value: Math.max(0, Math.min(1, scale(cell.value))) }));
+}
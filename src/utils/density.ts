@@ -2,18 +2,30 @@
  * Density calculation utilities for time-based density accumulation
  */
 
-import type { Point, CellBounds, Config } from '../types/spreadsheet';
-import { calculateDistance, getCellCenter } from './subdivision';
+import type { Point, BrushPoint, BrushStroke, CellBounds, Config } from '../types/spreadsheet';
+import { getCellCenter } from './subdivision';
+import { evaluateFalloff } from './falloff';
+
+// Smallest brush radius under pen pressure, as a fraction of influenceRadius
+const MIN_PRESSURE_RADIUS = 0.25;
+
+// Brush length along the tilt direction when the pen lies flat, as a multiple of its width
+const MAX_TILT_STRETCH = 2.5;
 
 /**
  * Calculate the increase rate for a cell based on distance from cursor
- * Uses linear falloff: full rate at cursor, zero at radius edge
- * Optionally boosted by cursor velocity
+ * Shaped by the configured falloff profile: full rate at cursor, zero at radius edge
+ * Optionally boosted by cursor velocity and scaled by pen pressure
+ *
+ * The factors multiply: rate = increaseRate * increaseMultiplier * falloff
+ *   * velocity multiplier (1 to velocityInfluence) * pressure multiplier (0 to 1)
+ * so a fast, light pen stroke builds as a slow, firm one would at the same product.
  */
 export function calculateIncreaseRate(
   distance: number,
   config: Config,
-  velocity: number = 0
+  velocity: number = 0,
+  pressure?: number
 ): number {
   const { increaseRate, increaseMultiplier, influenceRadius } = config;
 
@@ -22,8 +34,8 @@ export function calculateIncreaseRate(
     return 0;
   }
 
-  // Linear falloff from full rate at center to zero at edge
-  const falloff = 1 - distance / influenceRadius;
+  // Falloff from full rate at center to zero at edge
+  const falloff = evaluateFalloff(config.falloff, distance / influenceRadius, config.falloffBezier);
 
   // Apply velocity multiplier
   const velocityMultiplier = calculateVelocityMultiplier(
@@ -31,7 +43,81 @@ export function calculateIncreaseRate(
     config.velocityInfluence
   );
 
-  return increaseRate * increaseMultiplier * falloff * velocityMultiplier;
+  const pressureMultiplier = calculatePressureMultiplier(pressure, config);
+
+  return increaseRate * increaseMultiplier * falloff * velocityMultiplier * pressureMultiplier;
+}
+
+/**
+ * Calculate build rate multiplier from pen pressure
+ * Returns 1.0 for pointers without pressure (mouse, most touch screens)
+ * or when pressure sensitivity is off, otherwise the pressure itself (0 to 1)
+ */
+export function calculatePressureMultiplier(
+  pressure: number | undefined,
+  config: Config
+): number {
+  if (pressure === undefined || !config.pressureSensitivity) {
+    return 1.0;
+  }
+  return Math.max(0, Math.min(1, pressure));
+}
+
+/**
+ * Brush length along the tilt direction, as a multiple of its width
+ */
+function calculateTiltStretch(tilt: number): number {
+  return 1 + (Math.min(tilt, 90) / 90) * (MAX_TILT_STRETCH - 1);
+}
+
+/**
+ * Farthest a brush point can reach in pixels, allowing for its tilt stretch
+ * Pressure only ever shrinks the brush, so it is ignored here
+ */
+export function calculateBrushReach(point: BrushPoint, config: Config): number {
+  const tiltX = point.tiltX ?? 0;
+  const tiltY = point.tiltY ?? 0;
+  return config.influenceRadius * calculateTiltStretch(Math.sqrt(tiltX * tiltX + tiltY * tiltY));
+}
+
+/**
+ * Distance from a brush point to a target, measured in brush units
+ *
+ * Pressure (when it affects size) shrinks the brush and tilt stretches it into
+ * an ellipse along the tilt direction. The result is scaled so it can be
+ * compared against config.influenceRadius as if the brush were a plain circle.
+ */
+export function calculateBrushDistance(
+  point: BrushPoint,
+  target: Point,
+  config: Config
+): number {
+  let dx = target.x - point.x;
+  let dy = target.y - point.y;
+
+  // Tilt: squash the offset along the tilt direction
+  const tiltX = point.tiltX ?? 0;
+  const tiltY = point.tiltY ?? 0;
+  const tilt = Math.sqrt(tiltX * tiltX + tiltY * tiltY);
+  if (tilt > 0) {
+    const ux = tiltX / tilt;
+    const uy = tiltY / tilt;
+    const stretch = calculateTiltStretch(tilt);
+    const along = (dx * ux + dy * uy) / stretch;
+    const across = dx * -uy + dy * ux;
+    dx = along;
+    dy = across;
+  }
+
+  let distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Pressure: a smaller brush reaches its edge sooner
+  if (config.pressureAffectsSize && point.pressure !== undefined) {
+    const pressure = Math.max(0, Math.min(1, point.pressure));
+    distance /= MIN_PRESSURE_RADIUS + (1 - MIN_PRESSURE_RADIUS) * pressure;
+  }
+
+  return distance;
 }
 
 /**
@@ -68,53 +154,56 @@ export function calculateTimeBasedDecayMultiplier(
  *
  * @param currentDensity - Current density value of the cell
  * @param cell - Cell bounds
- * @param cursorPositions - Array of cursor positions (for interpolated paths)
+ * @param strokes - One stroke per active pointer, each with its interpolated points
+ * and velocity. Points carry an optional signed strength - negative strength erases
+ * at the same rate
  * @param deltaTime - Time elapsed since last frame
  * @param config - Density configuration
- * @param cursorVelocity - Current cursor velocity
  * @param lastPaintedTime - Timestamp when cell was last painted (milliseconds)
  * @param currentTime - Current timestamp (milliseconds)
  */
 export function updateCellDensity(
   currentDensity: number,
   cell: CellBounds,
-  cursorPositions: Point[],
+  strokes: BrushStroke[],
   deltaTime: number,
   config: Config,
-  cursorVelocity: number = 0,
   lastPaintedTime: number,
   currentTime: number
 ): number {
   let newDensity = currentDensity;
+  const cellCenter = getCellCenter(cell);
 
-  // Apply increase if cursor positions are present
-  if (cursorPositions.length > 0) {
-    const cellCenter = getCellCenter(cell);
+  // Pointers paint independently, so their contributions add up
+  for (const { points, velocity } of strokes) {
+    if (points.length === 0) continue;
 
-    // Accumulate density from all cursor positions
+    // Accumulate density from all cursor positions of this pointer
     // Each position contributes proportionally
     let totalIncreaseRate = 0;
 
-    for (const cursorPos of cursorPositions) {
-      const distance = calculateDistance(cursorPos, cellCenter);
-      const increaseRate = calculateIncreaseRate(distance, config, cursorVelocity);
-      totalIncreaseRate += increaseRate;
+    for (const cursorPos of points) {
+      const distance = calculateBrushDistance(cursorPos, cellCenter, config);
+      const increaseRate = calculateIncreaseRate(distance, config, velocity, cursorPos.pressure);
+      totalIncreaseRate += increaseRate * (cursorPos.strength ?? 1);
     }
 
     // Average the increase rate to prevent over-accumulation
-    const avgIncreaseRate = totalIncreaseRate / cursorPositions.length;
+    const avgIncreaseRate = totalIncreaseRate / points.length;
 
     // Increase is per-second, so multiply by deltaTime
     newDensity += avgIncreaseRate * deltaTime;
   }
 
   // Apply time-based decay
-  const timeSincePainted = (currentTime - lastPaintedTime) / 1000; // Convert to seconds
-  const timeBasedMultiplier = calculateTimeBasedDecayMultiplier(timeSincePainted, config);
+  if (!config.persistent) {
+    const timeSincePainted = (currentTime - lastPaintedTime) / 1000; // Convert to seconds
+    const timeBasedMultiplier = calculateTimeBasedDecayMultiplier(timeSincePainted, config);
 
-  const { decayRate, decayMultiplier } = config;
-  const finalDecayRate = decayRate * decayMultiplier * timeBasedMultiplier;
-  newDensity -= finalDecayRate * deltaTime;
+    const { decayRate, decayMultiplier } = config;
+    const finalDecayRate = decayRate * decayMultiplier * timeBasedMultiplier;
+    newDensity -= finalDecayRate * deltaTime;
+  }
 
   // Clamp to [0, 1]
   return Math.max(0, Math.min(1, newDensity));
@@ -133,10 +222,10 @@ export function densityToSubdivisionLevel(
 }
 
 /**
- * Get a heat map color based on density value (for debug visualization)
+ * Get heat map RGB components (0-255) based on density value
  * 0.0 = blue/cold, 0.5 = yellow/warm, 1.0 = red/hot
  */
-export function densityToHeatColor(density: number): string {
+export function densityToHeatRgb(density: number): [number, number, number] {
   // Clamp density to [0, 1]
   const d = Math.max(0, Math.min(1, density));
 
@@ -146,17 +235,25 @@ export function densityToHeatColor(density: number): string {
     const red = Math.floor(255 * t);
     const green = Math.floor(255 * t);
     const blue = Math.floor(255 * (1 - t));
-    return `rgb(${red}, ${green}, ${blue})`;
+    return [red, green, blue];
   } else {
     // Yellow (255,255,0) -> Red (255,0,0)
     const t = (d - 0.5) * 2; // 0 to 1
     const red = 255;
     const green = Math.floor(255 * (1 - t));
     const blue = 0;
-    return `rgb(${red}, ${green}, ${blue})`;
+    return [red, green, blue];
   }
 }
 
+/**
+ * Get a heat map color based on density value (for debug visualization)
+ */
+export function densityToHeatColor(density: number): string {
+  const [red, green, blue] = densityToHeatRgb(density);
+  return `rgb(${red}, ${green}, ${blue})`;
+}
+
 /**
  * Calculate velocity multiplier based on cursor speed
  * velocity: pixels per second
@@ -184,6 +281,10 @@ export function calculateVelocityMultiplier(
   return 1.0 + curvedVelocity * (velocityInfluence - 1.0);
 }
 
+// Largest sheet, kept small enough that the scrolled area stays within browser element size limits
+export const MAX_SHEET_COLUMNS = 16384;
+export const MAX_SHEET_ROWS = 65536;
+
 /**
  * Create default configuration
  * Target: 2.5 seconds to build max, 4 seconds to decay fully (at 60fps)
@@ -201,19 +302,42 @@ export function createDefaultConfig(): Config {
     // Grid properties
     baseCellWidth: 80,
     baseCellHeight: 24,
-    columns: 26,
-    rows: 30,
+    columns: 256, // A to IV
+    rows: 16384,
 
     // Painting/density properties
     increaseRate,
     decayRate,
     influenceRadius: 200, // Small brush by default
+    brushSpace: 'sheet', // Brush zooms with the sheet
     increaseMultiplier: 0.8, // Slow build speed
     decayMultiplier: 1.0, // Normal fade speed
     velocityInfluence: 8.0, // 8x velocity boost
     interpolationDensity: 5.0, // 5x smoothness - very smooth strokes
     holdDuration: 1.5, // Hold steady for 1.5 seconds before decay starts
     decayAcceleration: 5.0, // Fast acceleration - quick drop-off after hold
+    persistent: false, // Density fades after the hold
     maxSubdivisionLevel: 6, // Default max subdivision level
+    falloff: 'linear', // Linear brush profile
+    falloffBezier: [0.25, 0.1, 0.25, 1], // CSS "ease", used by the custom curve
+    pressureSensitivity: true, // Pen pressure scales build speed
+    pressureAffectsSize: false, // Brush size ignores pressure
+    diffusionRate: 0, // No spreading between cells
+    diffusionNeighbors: 4, // Orthogonal neighbors when spreading is on
+    windStrength: 0, // No drift
+    windDirection: 0, // Drift to the right when enabled
+    subdivisionMode: 'uniform', // Split by aspect ratio only
+    detailThreshold: 0.02, // Adaptive mode skips nearly flat areas
   };
 }
+
+/**
+ * Config as the simulation takes it, with the brush radius in sheet pixels
+ * A screen-space brush covers fewer sheet pixels the further the sheet is zoomed in
+ */
+export function getSheetBrushConfig(config: Config, zoom: number): Config {
+  if (config.brushSpace !== 'screen' || zoom === 1) {
+    return config;
+  }
+  return { ...config, influenceRadius: config.influenceRadius / zoom, brushSpace: 'sheet' };
+}
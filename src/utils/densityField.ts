@@ -0,0 +1,62 @@
+/**
+ * Typed-array storage for per-cell density state
+ *
+ * Buffers are column-major: the cell at (col, row) lives at index col * rows + row.
+ */
+
+import type { CellDensityState } from '../types/spreadsheet';
+
+export class DensityField {
+  readonly columns: number;
+  readonly rows: number;
+  readonly density: Float32Array;
+  readonly lastPaintedTime: Float64Array;
+
+  /**
+   * @param columns - Number of base columns
+   * @param rows - Number of base rows
+   * @param initialTime - lastPaintedTime assigned to every cell (milliseconds)
+   */
+  constructor(columns: number, rows: number, initialTime: number = 0) {
+    this.columns = columns;
+    this.rows = rows;
+    this.density = new Float32Array(columns * rows);
+    this.lastPaintedTime = new Float64Array(columns * rows).fill(initialTime);
+  }
+
+  get size(): number {
+    return this.columns * this.rows;
+  }
+
+  contains(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.columns && row < this.rows;
+  }
+
+  /**
+   * Buffer index of a cell
+   */
+  index(col: number, row: number): number {
+    return col * this.rows + row;
+  }
+
+  getDensity(col: number, row: number): number {
+    return this.contains(col, row) ? this.density[this.index(col, row)] : 0;
+  }
+
+  getState(col: number, row: number): CellDensityState | undefined {
+    if (!this.contains(col, row)) {
+      return undefined;
+    }
+    const i = this.index(col, row);
+    return { density: this.density[i], lastPaintedTime: this.lastPaintedTime[i] };
+  }
+
+  setState(col: number, row: number, state: CellDensityState): void {
+    if (!this.contains(col, row)) {
+      return;
+    }
+    const i = this.index(col, row);
+    this.density[i] = state.density;
+    this.lastPaintedTime[i] = state.lastPaintedTime;
+  }
+}
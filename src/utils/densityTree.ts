@@ -0,0 +1,235 @@
+/**
+ * Adaptive per-subcell density
+ *
+ * A subdivided base cell keeps a binary tree of density nodes. Each leaf is a
+ * final cell with its own density and hold timer, so a small brush can refine
+ * part of a base cell while the rest stays coarse. Leaves split when their
+ * density calls for a deeper level and sibling leaves merge back when neither
+ * needs its level anymore. Each node remembers its split direction, which
+ * comes from a split rule (aspect ratio by default, image detail in adaptive
+ * mode).
+ */
+
+import type { CellBounds, SubdividedCell, SubdivisionDirection } from '../types/spreadsheet';
+import { densityToSubdivisionLevel } from './density';
+import {
+  SubdivisionGeometryCache,
+  subdivideCellOnce,
+  type SubcellGeometry,
+  type SubdivisionLine,
+} from './subdivision';
+
+export interface DensityNode {
+  density: number;
+  lastPaintedTime: number;
+  children: [DensityNode, DensityNode] | null; // null for leaves
+  direction: SubdivisionDirection; // How the node was split, meaningful only with children
+}
+
+/**
+ * Decides how a node about to split should be divided
+ * Returns null when the node is not worth splitting
+ */
+export type SplitRule = (bounds: CellBounds, level: number) => SubdivisionDirection | null;
+
+export function createLeaf(density: number, lastPaintedTime: number): DensityNode {
+  return { density, lastPaintedTime, children: null, direction: 'horizontal' };
+}
+
+/**
+ * Split or merge nodes until every leaf sits at the level its density asks for
+ *
+ * @param node - Subtree root, updated in place
+ * @param bounds - Bounds of node
+ * @param level - Level of node (0 for the base cell)
+ * @param maxLevel - Deepest allowed level, deeper subtrees are collapsed
+ * @param splitRule - Direction of new splits, or whether to split at all
+ */
+export function refineNode(
+  node: DensityNode,
+  bounds: CellBounds,
+  level: number,
+  maxLevel: number,
+  splitRule: SplitRule
+): void {
+  if (node.children) {
+    if (level >= maxLevel) {
+      collapseNode(node);
+      return;
+    }
+
+    const [first, second] = node.children;
+    const [firstBounds, secondBounds] = subdivideCellOnce(bounds, node.direction);
+    refineNode(first, firstBounds, level + 1, maxLevel, splitRule);
+    refineNode(second, secondBounds, level + 1, maxLevel, splitRule);
+
+    // Merge two leaves once neither needs to be finer than their parent
+    // The halves cover equal areas, so their mean keeps the density they held
+    if (
+      !first.children &&
+      !second.children &&
+      densityToSubdivisionLevel(first.density, maxLevel) <= level &&
+      densityToSubdivisionLevel(second.density, maxLevel) <= level
+    ) {
+      node.density = (first.density + second.density) / 2;
+      node.lastPaintedTime = Math.max(first.lastPaintedTime, second.lastPaintedTime);
+      node.children = null;
+    }
+  } else if (level < maxLevel && densityToSubdivisionLevel(node.density, maxLevel) > level) {
+    const direction = splitRule(bounds, level);
+    if (!direction) return;
+
+    // Children start from the parent's state and diverge from there
+    node.direction = direction;
+    node.children = [
+      createLeaf(node.density, node.lastPaintedTime),
+      createLeaf(node.density, node.lastPaintedTime),
+    ];
+    const [firstBounds, secondBounds] = subdivideCellOnce(bounds, direction);
+    refineNode(node.children[0], firstBounds, level + 1, maxLevel, splitRule);
+    refineNode(node.children[1], secondBounds, level + 1, maxLevel, splitRule);
+  }
+}
+
+/**
+ * Turn a subtree into a single leaf holding its densest, most recently painted state
+ */
+export function collapseNode(node: DensityNode): void {
+  if (!node.children) return;
+
+  let density = 0;
+  let lastPaintedTime = -Infinity;
+  visitLeafNodes(node, (leaf) => {
+    density = Math.max(density, leaf.density);
+    lastPaintedTime = Math.max(lastPaintedTime, leaf.lastPaintedTime);
+  });
+
+  node.density = density;
+  node.lastPaintedTime = lastPaintedTime;
+  node.children = null;
+}
+
+/**
+ * Density of a subtree averaged over its area, what the base cell holds in total
+ */
+export function meanDensity(node: DensityNode): number {
+  return node.children ? (meanDensity(node.children[0]) + meanDensity(node.children[1])) / 2 : node.density;
+}
+
+/**
+ * Move the mean density of a subtree from one value to another, staying in [0, 1]
+ * Lowering scales every leaf down, raising moves every leaf the same share of
+ * the way to 1, so leaves keep their order and the mean lands exactly on target.
+ */
+export function shiftMeanDensity(node: DensityNode, from: number, to: number): void {
+  if (to === from) return;
+
+  if (to < from) {
+    const scale = from > 0 ? Math.max(0, to) / from : 0;
+    visitLeafNodes(node, (leaf) => {
+      leaf.density *= scale;
+    });
+  } else {
+    const share = from < 1 ? Math.min(1, (to - from) / (1 - from)) : 0;
+    visitLeafNodes(node, (leaf) => {
+      leaf.density += (1 - leaf.density) * share;
+    });
+  }
+}
+
+/**
+ * Visit every leaf node, without bounds
+ */
+export function visitLeafNodes(node: DensityNode, visit: (leaf: DensityNode) => void): void {
+  if (node.children) {
+    visitLeafNodes(node.children[0], visit);
+    visitLeafNodes(node.children[1], visit);
+  } else {
+    visit(node);
+  }
+}
+
+/**
+ * Visit every leaf with its bounds and level
+ * The bounds object is reused from leaf to leaf, copy it to keep it.
+ *
+ * @param geometry - Cached geometry of the base cell holding node
+ * @param x - Left edge of that base cell in sheet coordinates
+ * @param y - Top edge of that base cell in sheet coordinates
+ */
+export function visitLeaves(
+  node: DensityNode,
+  geometry: SubcellGeometry,
+  x: number,
+  y: number,
+  visit: (leaf: DensityNode, bounds: CellBounds, level: number) => void
+): void {
+  visitLeavesInto(node, geometry, x, y, visit, { x: 0, y: 0, width: 0, height: 0 });
+}
+
+function visitLeavesInto(
+  node: DensityNode,
+  geometry: SubcellGeometry,
+  x: number,
+  y: number,
+  visit: (leaf: DensityNode, bounds: CellBounds, level: number) => void,
+  bounds: CellBounds
+): void {
+  if (node.children) {
+    const [first, second] = SubdivisionGeometryCache.split(geometry, node.direction).children;
+    visitLeavesInto(node.children[0], first, x, y, visit, bounds);
+    visitLeavesInto(node.children[1], second, x, y, visit, bounds);
+  } else {
+    bounds.x = x + geometry.bounds.x;
+    bounds.y = y + geometry.bounds.y;
+    bounds.width = geometry.bounds.width;
+    bounds.height = geometry.bounds.height;
+    visit(node, bounds, geometry.level);
+  }
+}
+
+/**
+ * Final cells of a tree
+ */
+export function collectLeafCells(
+  node: DensityNode,
+  geometry: SubcellGeometry,
+  baseX: number,
+  baseY: number
+): SubdividedCell[] {
+  const { width, height } = geometry.bounds;
+  const cells: SubdividedCell[] = [];
+  visitLeaves(node, geometry, baseX * width, baseY * height, (leaf, leafBounds, level) => {
+    cells.push({ ...leafBounds, level, baseX, baseY, density: leaf.density });
+  });
+  return cells;
+}
+
+/**
+ * Split lines of every inner node, tagged with the level they create
+ *
+ * @param x - Left edge of the base cell in sheet coordinates
+ * @param y - Top edge of the base cell in sheet coordinates
+ */
+export function collectSplitLines(
+  node: DensityNode,
+  geometry: SubcellGeometry,
+  x: number,
+  y: number,
+  lines: SubdivisionLine[] = []
+): SubdivisionLine[] {
+  if (!node.children) return lines;
+
+  const { children, line } = SubdivisionGeometryCache.split(geometry, node.direction);
+  lines.push({ x1: x + line.x1, y1: y + line.y1, x2: x + line.x2, y2: y + line.y2, level: line.level });
+  collectSplitLines(node.children[0], children[0], x, y, lines);
+  collectSplitLines(node.children[1], children[1], x, y, lines);
+  return lines;
+}
+
+/**
+ * Depth of the deepest leaf
+ */
+export function treeDepth(node: DensityNode): number {
+  return node.children ? 1 + Math.max(treeDepth(node.children[0]), treeDepth(node.children[1])) : 0;
+}
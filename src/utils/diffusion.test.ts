@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { createDefaultConfig } from './density';
+import { DensityField } from './densityField';
+import { diffuseDensity, isDiffusionEnabled } from './diffusion';
+import type { Config } from '../types/spreadsheet';
+
+// 5x5 field holding a single full cell at (col, row)
+function createField(col = 2, row = 2): DensityField {
+  const field = new DensityField(5, 5);
+  field.density[col * 5 + row] = 1;
+  return field;
+}
+
+function step(field: DensityField, overrides: Partial<Config>, deltaTime = 0.1): void {
+  diffuseDensity(field, new Float32Array(field.size), deltaTime, { ...createDefaultConfig(), ...overrides });
+}
+
+const at = (field: DensityField, col: number, row: number) => field.density[col * field.rows + row];
+const total = (field: DensityField) => field.density.reduce((sum, value) => sum + value, 0);
+
+describe('isDiffusionEnabled', () => {
+  test('is off until diffusion or wind is turned up', () => {
+    expect(isDiffusionEnabled(createDefaultConfig())).toBe(false);
+    expect(isDiffusionEnabled({ ...createDefaultConfig(), diffusionRate: 0.1 })).toBe(true);
+    expect(isDiffusionEnabled({ ...createDefaultConfig(), windStrength: 0.1 })).toBe(true);
+  });
+});
+
+describe('diffuseDensity', () => {
+  test('spreads evenly to the 4 orthogonal neighbors', () => {
+    const field = createField();
+    step(field, { diffusionRate: 2, diffusionNeighbors: 4 });
+
+    expect(at(field, 2, 2)).toBeCloseTo(0.8, 6);
+    for (const [col, row] of [[1, 2], [3, 2], [2, 1], [2, 3]]) {
+      expect(at(field, col, row)).toBeCloseTo(0.05, 6);
+    }
+    expect(at(field, 1, 1)).toBe(0);
+    expect(total(field)).toBeCloseTo(1, 6);
+  });
+
+  test('gives diagonal neighbors less with 8 neighbors', () => {
+    const field = createField();
+    step(field, { diffusionRate: 2, diffusionNeighbors: 8 });
+
+    expect(at(field, 1, 1)).toBeGreaterThan(0);
+    expect(at(field, 1, 1)).toBeCloseTo(at(field, 1, 2) * Math.SQRT1_2, 6);
+    expect(total(field)).toBeCloseTo(1, 6);
+  });
+
+  test('conserves density in a corner', () => {
+    const field = createField(0, 0);
+    for (let i = 0; i < 20; i++) step(field, { diffusionRate: 5, diffusionNeighbors: 8 });
+
+    expect(at(field, 4, 4)).toBeGreaterThan(0);
+    expect(total(field)).toBeCloseTo(1, 5);
+  });
+
+  test('wind drifts density downwind, split between the cells it lands between', () => {
+    const field = createField();
+    step(field, { windStrength: 5, windDirection: 0 });
+
+    expect(at(field, 2, 2)).toBeCloseTo(0.5, 6);
+    expect(at(field, 3, 2)).toBeCloseTo(0.5, 6);
+    expect(at(field, 1, 2)).toBe(0);
+
+    step(field, { windStrength: 10, windDirection: 90 });
+    expect(at(field, 2, 3)).toBeCloseTo(0.5, 6);
+    expect(at(field, 3, 3)).toBeCloseTo(0.5, 6);
+  });
+
+  test('wind carries density off the grid edge', () => {
+    const field = createField(4, 2);
+    step(field, { windStrength: 10, windDirection: 0 });
+
+    expect(total(field)).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Density diffusion between neighboring base cells
+ *
+ * Runs after each frame's density update so painted regions bleed into their
+ * neighbors instead of keeping hard edges at base cell boundaries. Distances
+ * are measured in cells, not pixels.
+ */
+
+import type { Config } from '../types/spreadsheet';
+import type { DensityField } from './densityField';
+
+// Diagonal neighbors are farther away, so they get less weight in the 8-neighbor kernel
+const DIAGONAL_WEIGHT = Math.SQRT1_2;
+
+const ORTHOGONAL_OFFSETS: Array<[number, number, number]> = [
+  [-1, 0, 1],
+  [1, 0, 1],
+  [0, -1, 1],
+  [0, 1, 1],
+];
+
+const DIAGONAL_OFFSETS: Array<[number, number, number]> = [
+  [-1, -1, DIAGONAL_WEIGHT],
+  [1, -1, DIAGONAL_WEIGHT],
+  [-1, 1, DIAGONAL_WEIGHT],
+  [1, 1, DIAGONAL_WEIGHT],
+];
+
+/**
+ * Whether the config asks for any diffusion or drift
+ */
+export function isDiffusionEnabled(config: Config): boolean {
+  return config.diffusionRate > 0 || config.windStrength > 0;
+}
+
+/**
+ * Add a value at a fractional cell position, split bilinearly between the four
+ * cells around it; the parts landing outside the grid are dropped
+ */
+function scatterDensity(
+  density: Float32Array,
+  columns: number,
+  rows: number,
+  col: number,
+  row: number,
+  value: number
+): void {
+  const c0 = Math.floor(col);
+  const r0 = Math.floor(row);
+  const fc = col - c0;
+  const fr = row - r0;
+
+  const add = (c: number, r: number, weight: number) => {
+    if (weight > 0 && c >= 0 && r >= 0 && c < columns && r < rows) {
+      density[c * rows + r] += value * weight;
+    }
+  };
+  add(c0, r0, (1 - fc) * (1 - fr));
+  add(c0 + 1, r0, fc * (1 - fr));
+  add(c0, r0 + 1, (1 - fc) * fr);
+  add(c0 + 1, r0 + 1, fc * fr);
+}
+
+/**
+ * Spread density to neighboring cells and drift it with the wind
+ *
+ * Each cell exchanges density with its 4 or 8 neighbors at diffusionRate per
+ * second, what one cell gives the other receives, so diffusion conserves the
+ * total (edges only exchange with the neighbors inside the grid). Wind then
+ * carries density windStrength cells per second toward windDirection; density
+ * carried past the edge of the grid leaves it.
+ *
+ * @param field - Density field, updated in place
+ * @param scratch - Buffer of at least field.size values, overwritten
+ * @param deltaTime - Time elapsed since last frame (seconds)
+ * @param config - Density configuration
+ */
+export function diffuseDensity(
+  field: DensityField,
+  scratch: Float32Array,
+  deltaTime: number,
+  config: Config
+): void {
+  const { columns, rows, density } = field;
+  const { diffusionRate, diffusionNeighbors, windStrength, windDirection } = config;
+
+  // Explicit step, capped so a cell never overshoots its neighbors' average
+  const amount = Math.min(1, diffusionRate * deltaTime);
+  if (amount > 0) {
+    const offsets =
+      diffusionNeighbors === 8 ? [...ORTHOGONAL_OFFSETS, ...DIAGONAL_OFFSETS] : ORTHOGONAL_OFFSETS;
+    // Normalized by the whole kernel, also at edges, so every exchange is symmetric
+    const kernelWeight = offsets.reduce((total, [, , w]) => total + w, 0);
+
+    for (let col = 0; col < columns; col++) {
+      for (let row = 0; row < rows; row++) {
+        const i = col * rows + row;
+        let flow = 0;
+
+        for (const [dc, dr, w] of offsets) {
+          const c = col + dc;
+          const r = row + dr;
+          if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+          flow += (density[c * rows + r] - density[i]) * w;
+        }
+
+        scratch[i] = density[i] + (flow / kernelWeight) * amount;
+      }
+    }
+
+    density.set(scratch.subarray(0, density.length));
+  }
+
+  // Each cell hands its density to the cells downwind of it, split bilinearly,
+  // so drifting moves density without creating any
+  const drift = windStrength * deltaTime;
+  if (drift > 0) {
+    const angle = (windDirection * Math.PI) / 180;
+    const driftCol = Math.cos(angle) * drift;
+    const driftRow = Math.sin(angle) * drift;
+    scratch.fill(0, 0, density.length);
+
+    for (let col = 0; col < columns; col++) {
+      for (let row = 0; row < rows; row++) {
+        const value = density[col * rows + row];
+        if (value > 0) {
+          scatterDensity(scratch, columns, rows, col + driftCol, row + driftRow, value);
+        }
+      }
+    }
+
+    density.set(scratch.subarray(0, density.length));
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { FALLOFF_KINDS, evaluateCubicBezier, evaluateFalloff } from './falloff';
+import type { BezierControlPoints } from '../types/spreadsheet';
+
+const EASE: BezierControlPoints = [0.25, 0.1, 0.25, 1];
+
+describe('evaluateFalloff', () => {
+  test('every curve is full at the cursor, zero at the edge and never increases', () => {
+    for (const kind of FALLOFF_KINDS) {
+      expect(evaluateFalloff(kind, 0, EASE)).toBeCloseTo(1, 5);
+      expect(evaluateFalloff(kind, 1, EASE)).toBe(0);
+      expect(evaluateFalloff(kind, 1.5, EASE)).toBe(0);
+
+      let previous = Infinity;
+      for (let t = 0; t < 1; t += 0.05) {
+        const weight = evaluateFalloff(kind, t, EASE);
+        expect(weight).toBeGreaterThanOrEqual(0);
+        expect(weight).toBeLessThanOrEqual(previous + 1e-6);
+        previous = weight;
+      }
+    }
+  });
+
+  test('matches the closed forms halfway out', () => {
+    expect(evaluateFalloff('linear', 0.5)).toBe(0.5);
+    expect(evaluateFalloff('quadratic', 0.5)).toBe(0.25);
+    expect(evaluateFalloff('smoothstep', 0.5)).toBe(0.5);
+    expect(evaluateFalloff('constant', 0.99)).toBe(1);
+    expect(evaluateFalloff('gaussian', 0.5)).toBeCloseTo(0.3171, 4);
+  });
+
+  test('clamps distances inside the cursor to the center', () => {
+    expect(evaluateFalloff('quadratic', -0.5)).toBe(1);
+  });
+
+  test('reads the bezier as weight over closeness, linear without control points', () => {
+    expect(evaluateFalloff('cubic-bezier', 0.3, EASE)).toBeCloseTo(evaluateCubicBezier(EASE, 0.7), 3);
+    expect(evaluateFalloff('cubic-bezier', 0.3)).toBeCloseTo(0.7, 10);
+  });
+});
+
+describe('evaluateCubicBezier', () => {
+  test('follows the identity for a straight curve', () => {
+    const straight: BezierControlPoints = [1 / 3, 1 / 3, 2 / 3, 2 / 3];
+    for (const x of [0, 0.2, 0.5, 0.9, 1]) {
+      expect(evaluateCubicBezier(straight, x)).toBeCloseTo(x, 5);
+    }
+  });
+
+  test('matches the CSS ease curve', () => {
+    expect(evaluateCubicBezier(EASE, 0.5)).toBeCloseTo(0.8024, 3);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Brush falloff profiles
+ *
+ * A falloff maps normalized distance from the cursor (0 at the center, 1 at
+ * the edge of the influence radius) to a brush weight between 0 and 1.
+ */
+
+import type { FalloffKind, BezierControlPoints } from '../types/spreadsheet';
+
+export const FALLOFF_KINDS: FalloffKind[] = [
+  'linear',
+  'quadratic',
+  'gaussian',
+  'smoothstep',
+  'constant',
+  'cubic-bezier',
+];
+
+export const FALLOFF_LABELS: Record<FalloffKind, string> = {
+  linear: 'Linear',
+  quadratic: 'Quadratic',
+  gaussian: 'Gaussian (soft)',
+  smoothstep: 'Smoothstep',
+  constant: 'Constant (hard)',
+  'cubic-bezier': 'Custom curve',
+};
+
+// Gaussian sharpness: exp(-k * t^2), rescaled so the edge reaches exactly zero
+const GAUSSIAN_K = 4.5;
+const GAUSSIAN_EDGE = Math.exp(-GAUSSIAN_K);
+
+// Samples in the cubic-bezier lookup table
+const BEZIER_TABLE_SIZE = 256;
+
+/**
+ * Solve a CSS-style cubic-bezier easing: y for a given x in [0, 1]
+ */
+export function evaluateCubicBezier(points: BezierControlPoints, x: number): number {
+  const [x1, y1, x2, y2] = points;
+
+  // Polynomial coefficients of the curve components
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+
+  // Newton-Raphson from the identity guess
+  let s = x;
+  for (let i = 0; i < 8; i++) {
+    const error = sampleX(s) - x;
+    if (Math.abs(error) < 1e-6) return sampleY(s);
+    const slope = (3 * ax * s + 2 * bx) * s + cx;
+    if (Math.abs(slope) < 1e-6) break;
+    s -= error / slope;
+  }
+
+  // Bisection fallback for flat regions
+  let lo = 0;
+  let hi = 1;
+  s = x;
+  for (let i = 0; i < 32; i++) {
+    const value = sampleX(s);
+    if (Math.abs(value - x) < 1e-6) break;
+    if (value < x) lo = s;
+    else hi = s;
+    s = (lo + hi) / 2;
+  }
+
+  return sampleY(s);
+}
+
+// The bezier is evaluated for every cell and cursor point, so keep a table
+// for the most recently used control points
+let bezierTableKey = '';
+let bezierTable = new Float32Array(BEZIER_TABLE_SIZE + 1);
+
+function lookupCubicBezier(points: BezierControlPoints, x: number): number {
+  const key = points.join(',');
+  if (key !== bezierTableKey) {
+    bezierTable = new Float32Array(BEZIER_TABLE_SIZE + 1);
+    for (let i = 0; i <= BEZIER_TABLE_SIZE; i++) {
+      bezierTable[i] = evaluateCubicBezier(points, i / BEZIER_TABLE_SIZE);
+    }
+    bezierTableKey = key;
+  }
+
+  const position = x * BEZIER_TABLE_SIZE;
+  const index = Math.min(Math.floor(position), BEZIER_TABLE_SIZE - 1);
+  const fraction = position - index;
+  return bezierTable[index] + (bezierTable[index + 1] - bezierTable[index]) * fraction;
+}
+
+/**
+ * Brush weight at normalized distance t (0 = cursor, 1 = edge of radius)
+ * The bezier curve is read as weight over closeness (1 - t), like an easing curve
+ */
+export function evaluateFalloff(
+  kind: FalloffKind,
+  t: number,
+  bezier?: BezierControlPoints
+): number {
+  if (t >= 1) return 0;
+  const d = Math.max(0, t);
+
+  switch (kind) {
+    case 'quadratic':
+      return (1 - d) * (1 - d);
+    case 'gaussian':
+      return (Math.exp(-GAUSSIAN_K * d * d) - GAUSSIAN_EDGE) / (1 - GAUSSIAN_EDGE);
+    case 'smoothstep':
+      return 1 - d * d * (3 - 2 * d);
+    case 'constant':
+      return 1;
+    case 'cubic-bezier':
+      return bezier ? Math.max(0, Math.min(1, lookupCubicBezier(bezier, 1 - d))) : 1 - d;
+    case 'linear':
+    default:
+      return 1 - d;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Browser file helpers for saving and opening documents
+ */
+
+/**
+ * Offer a blob to the user as a file download
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Download a value as pretty-printed JSON
+ */
+export function downloadJson(value: unknown, filename: string): void {
+  const json = JSON.stringify(value, null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+}
+
+/**
+ * Read a file's contents as text
+ */
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Encode a canvas as an image blob (PNG by default)
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement | OffscreenCanvas, type = 'image/png'): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))), type);
+  });
+}
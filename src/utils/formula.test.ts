@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  FormulaError,
+  parseFormula,
+  evaluateFormula,
+  collectReferences,
+  isVolatile,
+  type FormulaValue,
+} from './formula';
+import type { CellAddress } from '../types/spreadsheet';
+
+// A1 = 2, A2 = 3, A3 = "text", A4 empty, B1 = #DIV/0!
+const values = new Map<string, FormulaValue>([
+  ['0:0', 2],
+  ['0:1', 3],
+  ['0:2', 'text'],
+  ['1:0', new FormulaError('#DIV/0!')],
+]);
+
+const context = {
+  getValue: (cell: CellAddress) => values.get(`${cell.col}:${cell.row}`) ?? null,
+  getDensity: (cell: CellAddress) => (cell.col + cell.row) / 10,
+  getLevel: () => 3,
+};
+
+function run(text: string): FormulaValue {
+  const node = parseFormula(text);
+  return node instanceof FormulaError ? node : evaluateFormula(node, context);
+}
+
+const errorCode = (value: FormulaValue) => (value instanceof FormulaError ? value.code : value);
+
+describe('parseFormula', () => {
+  test('binds operators by precedence and left to right', () => {
+    expect(run('1+2*3')).toBe(7);
+    expect(run('(1+2)*3')).toBe(9);
+    expect(run('10-4-3')).toBe(3);
+    expect(run('2^3*2')).toBe(16);
+    expect(run('-2^2')).toBe(4);
+    expect(run('1+2&"x"')).toBe('3x');
+    expect(run('1+1=2')).toBe(true);
+    expect(run('"a"<>"A"')).toBe(false);
+  });
+
+  test('reads references, ranges and function calls', () => {
+    expect(parseFormula('$A$2')).toEqual({ type: 'ref', cell: { col: 0, row: 1 } });
+    expect(parseFormula('SUM(A1:B2)')).toEqual({
+      type: 'call',
+      name: 'SUM',
+      args: [{ type: 'range', from: { col: 0, row: 0 }, to: { col: 1, row: 1 } }],
+    });
+  });
+
+  test('returns syntax errors as values', () => {
+    expect(errorCode(run('1+'))).toBe('#ERROR!');
+    expect(errorCode(run('(1'))).toBe('#ERROR!');
+    expect(errorCode(run('"open'))).toBe('#ERROR!');
+    expect(errorCode(run('NOPE'))).toBe('#NAME?');
+  });
+});
+
+describe('evaluateFormula', () => {
+  test('range functions skip text and empty cells', () => {
+    expect(run('SUM(A1:A4)')).toBe(5);
+    expect(run('AVERAGE(A1:A4)')).toBe(2.5);
+    expect(run('COUNT(A1:A4)')).toBe(2);
+    expect(run('MIN(A1:A4, 1)')).toBe(1);
+    expect(run('MAX(A1:A4)')).toBe(3);
+    expect(errorCode(run('AVERAGE(A3:A4)'))).toBe('#DIV/0!');
+  });
+
+  test('errors flow into the formulas that read them', () => {
+    expect(errorCode(run('B1+1'))).toBe('#DIV/0!');
+    expect(errorCode(run('SUM(A1:B1)'))).toBe('#DIV/0!');
+    expect(errorCode(run('A3*2'))).toBe('#VALUE!');
+    expect(errorCode(run('1/0'))).toBe('#DIV/0!');
+  });
+
+  test('DENSITY and LEVEL read the density field', () => {
+    expect(run('DENSITY(C2)')).toBeCloseTo(0.3);
+    expect(run('LEVEL(A1)')).toBe(3);
+  });
+});
+
+describe('collectReferences', () => {
+  test('lists value references but not density arguments', () => {
+    const node = parseFormula('A1+SUM(B1:B2)+DENSITY(C1)');
+    if (node instanceof FormulaError) throw node;
+
+    expect(collectReferences(node)).toEqual([
+      { col: 0, row: 0 },
+      { col: 1, row: 0 },
+      { col: 1, row: 1 },
+    ]);
+    expect(isVolatile(node)).toBe(true);
+  });
+});
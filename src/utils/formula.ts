@@ -0,0 +1,534 @@
+/**
+ * Spreadsheet formulas
+ *
+ * Parses formulas such as =A1*2, =AVERAGE(B1:B10) or =DENSITY(C3) into a
+ * syntax tree and evaluates it against the sheet. References use the sheet's
+ * column letters and 1-based row numbers. Errors are values, like in Excel:
+ * they show in the cell and flow into every formula that uses it.
+ */
+
+import type { CellAddress } from '../types/spreadsheet';
+import { parseColumnLabel } from './canvas';
+
+export type FormulaErrorCode = '#DIV/0!' | '#VALUE!' | '#REF!' | '#NAME?' | '#CIRC!' | '#ERROR!';
+
+/**
+ * Error value of a formula, shown in place of the result
+ */
+export class FormulaError {
+  readonly code: FormulaErrorCode;
+
+  constructor(code: FormulaErrorCode) {
+    this.code = code;
+  }
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+export type FormulaValue = number | string | boolean | FormulaError;
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; cell: CellAddress }
+  | { type: 'range'; from: CellAddress; to: CellAddress }
+  | { type: 'unary'; operator: '-' | '+'; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+/**
+ * What a formula can read from the sheet
+ * Cell values are null for empty cells
+ */
+export interface FormulaContext {
+  getValue(cell: CellAddress): FormulaValue | null;
+  getDensity(cell: CellAddress): number;
+  getLevel(cell: CellAddress): number;
+}
+
+// Functions that read the density field instead of cell values
+const SHEET_FUNCTIONS = new Set(['DENSITY', 'LEVEL']);
+
+// Largest range a formula may reference, keeps a typo like A1:ZZZ99999 from hanging the sheet
+const MAX_RANGE_CELLS = 100000;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'ref'; cell: CellAddress }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'paren'; value: '(' | ')' }
+  | { type: 'comma' }
+  | { type: 'colon' };
+
+/**
+ * Parse a cell reference like B7 or $B$7
+ */
+export function parseCellReference(text: string): CellAddress | null {
+  const match = /^\$?([A-Za-z]{1,3})\$?([0-9]+)$/.exec(text);
+  if (!match) return null;
+  const col = parseColumnLabel(match[1]);
+  const row = Number(match[2]) - 1;
+  return col === null || row < 0 ? null : { col, row };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(?:[0-9]+\.?[0-9]*|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(text.slice(i));
+      if (!match) throw new FormulaError('#ERROR!');
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= text.length) throw new FormulaError('#ERROR!');
+        if (text[i] === '"') {
+          if (text[i + 1] !== '"') break;
+          i++;
+        }
+        value += text[i++];
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_.$]*/.exec(text.slice(i)) as RegExpExecArray;
+      const cell = parseCellReference(match[0]);
+      tokens.push(cell ? { type: 'ref', cell } : { type: 'name', value: match[0].toUpperCase() });
+      i += match[0].length;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+      i++;
+    } else if (char === ',' || char === ';') {
+      tokens.push({ type: 'comma' });
+      i++;
+    } else if (char === ':') {
+      tokens.push({ type: 'colon' });
+      i++;
+    } else {
+      const operator = ['<=', '>=', '<>'].find((op) => text.startsWith(op, i)) ?? char;
+      if (!['+', '-', '*', '/', '^', '&', '=', '<', '>', '<=', '>=', '<>'].includes(operator)) {
+        throw new FormulaError('#ERROR!');
+      }
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, lowest precedence first:
+ * comparison, concatenation, addition, multiplication, power, unary, primary
+ */
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): FormulaNode {
+    const node = this.comparison();
+    if (this.position < this.tokens.length) {
+      throw new FormulaError('#ERROR!');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private matchOperator(operators: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private binary(operators: string[], next: () => FormulaNode): FormulaNode {
+    let left = next();
+    let operator: string | null;
+    while ((operator = this.matchOperator(operators))) {
+      left = { type: 'binary', operator, left, right: next() };
+    }
+    return left;
+  }
+
+  private comparison = (): FormulaNode => this.binary(['=', '<>', '<', '>', '<=', '>='], this.concatenation);
+  private concatenation = (): FormulaNode => this.binary(['&'], this.additive);
+  private additive = (): FormulaNode => this.binary(['+', '-'], this.multiplicative);
+  private multiplicative = (): FormulaNode => this.binary(['*', '/'], this.power);
+  private power = (): FormulaNode => this.binary(['^'], this.unary);
+
+  private unary = (): FormulaNode => {
+    const operator = this.matchOperator(['-', '+']);
+    if (operator) {
+      return { type: 'unary', operator: operator as '-' | '+', operand: this.unary() };
+    }
+    return this.primary();
+  };
+
+  private primary(): FormulaNode {
+    const token = this.tokens[this.position++];
+    if (!token) throw new FormulaError('#ERROR!');
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'string':
+        return { type: 'string', value: token.value };
+      case 'ref': {
+        if (this.peek()?.type !== 'colon') {
+          return { type: 'ref', cell: token.cell };
+        }
+        this.position++;
+        const end = this.tokens[this.position++];
+        if (end?.type !== 'ref') throw new FormulaError('#ERROR!');
+        return { type: 'range', from: token.cell, to: end.cell };
+      }
+      case 'name': {
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          return { type: 'boolean', value: token.value === 'TRUE' };
+        }
+        const open = this.tokens[this.position++];
+        if (open?.type !== 'paren' || open.value !== '(') throw new FormulaError('#NAME?');
+        return { type: 'call', name: token.value, args: this.args() };
+      }
+      case 'paren': {
+        if (token.value !== '(') break;
+        const node = this.comparison();
+        const close = this.tokens[this.position++];
+        if (close?.type !== 'paren' || close.value !== ')') throw new FormulaError('#ERROR!');
+        return node;
+      }
+    }
+    throw new FormulaError('#ERROR!');
+  }
+
+  private args(): FormulaNode[] {
+    const args: FormulaNode[] = [];
+    const next = this.peek();
+    if (next?.type === 'paren' && next.value === ')') {
+      this.position++;
+      return args;
+    }
+
+    while (true) {
+      args.push(this.comparison());
+      const token = this.tokens[this.position++];
+      if (token?.type === 'comma') continue;
+      if (token?.type === 'paren' && token.value === ')') return args;
+      throw new FormulaError('#ERROR!');
+    }
+  }
+}
+
+/**
+ * Parse formula text without the leading '='
+ * Returns a FormulaError for syntax errors, so they show in the cell
+ */
+export function parseFormula(text: string): FormulaNode | FormulaError {
+  try {
+    return new Parser(tokenize(text)).parse();
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+}
+
+/**
+ * Cells of a range in reading order, whichever corners it was written with
+ */
+export function expandRange(from: CellAddress, to: CellAddress): CellAddress[] {
+  const firstCol = Math.min(from.col, to.col);
+  const lastCol = Math.max(from.col, to.col);
+  const firstRow = Math.min(from.row, to.row);
+  const lastRow = Math.max(from.row, to.row);
+  if ((lastCol - firstCol + 1) * (lastRow - firstRow + 1) > MAX_RANGE_CELLS) {
+    throw new FormulaError('#REF!');
+  }
+
+  const cells: CellAddress[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      cells.push({ col, row });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells whose values a formula reads
+ * DENSITY and LEVEL arguments are left out, they read the density field, not values
+ */
+export function collectReferences(node: FormulaNode): CellAddress[] {
+  switch (node.type) {
+    case 'ref':
+      return [node.cell];
+    case 'range':
+      try {
+        return expandRange(node.from, node.to);
+      } catch {
+        return [];
+      }
+    case 'unary':
+      return collectReferences(node.operand);
+    case 'binary':
+      return [...collectReferences(node.left), ...collectReferences(node.right)];
+    case 'call':
+      return SHEET_FUNCTIONS.has(node.name) ? [] : node.args.flatMap(collectReferences);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether a formula reads the density field, so it changes as the sheet is painted
+ */
+export function isVolatile(node: FormulaNode): boolean {
+  switch (node.type) {
+    case 'unary':
+      return isVolatile(node.operand);
+    case 'binary':
+      return isVolatile(node.left) || isVolatile(node.right);
+    case 'call':
+      return SHEET_FUNCTIONS.has(node.name) || node.args.some(isVolatile);
+    default:
+      return false;
+  }
+}
+
+function toNumber(value: FormulaValue | null): number {
+  if (value instanceof FormulaError) throw value;
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const number = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(number)) throw new FormulaError('#VALUE!');
+  return number;
+}
+
+/**
+ * Text shown for a value, numbers in the General format
+ */
+export function formatFormulaValue(value: FormulaValue | null): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return String(Number(value.toPrecision(10)));
+  return value.toString();
+}
+
+function toBoolean(value: FormulaValue | null): boolean {
+  if (typeof value === 'string') {
+    const upper = value.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  }
+  return toNumber(value) !== 0;
+}
+
+function checkNumber(value: number): number {
+  if (!Number.isFinite(value)) throw new FormulaError('#VALUE!');
+  return value;
+}
+
+function compare(left: FormulaValue | null, right: FormulaValue | null): number {
+  if (left instanceof FormulaError) throw left;
+  if (right instanceof FormulaError) throw right;
+  if (typeof left !== 'string' && typeof right !== 'string') {
+    return toNumber(left) - toNumber(right);
+  }
+  const a = formatFormulaValue(left).toUpperCase();
+  const b = formatFormulaValue(right).toUpperCase();
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Evaluate a parsed formula, returning errors as values
+ */
+export function evaluateFormula(node: FormulaNode, context: FormulaContext): FormulaValue {
+  try {
+    const value = evaluate(node, context);
+    return value === null ? 0 : value;
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+}
+
+function evaluate(node: FormulaNode, context: FormulaContext): FormulaValue | null {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'ref': {
+      const value = context.getValue(node.cell);
+      if (value instanceof FormulaError) throw value;
+      return value;
+    }
+    case 'range':
+      // A range only makes sense as a function argument
+      throw new FormulaError('#VALUE!');
+    case 'unary': {
+      const operand = toNumber(evaluate(node.operand, context));
+      return node.operator === '-' ? -operand : operand;
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, evaluate(node.left, context), evaluate(node.right, context));
+    case 'call':
+      return callFunction(node.name, node.args, context);
+  }
+}
+
+function evaluateBinary(operator: string, left: FormulaValue | null, right: FormulaValue | null): FormulaValue {
+  switch (operator) {
+    case '+':
+      return checkNumber(toNumber(left) + toNumber(right));
+    case '-':
+      return checkNumber(toNumber(left) - toNumber(right));
+    case '*':
+      return checkNumber(toNumber(left) * toNumber(right));
+    case '/': {
+      const divisor = toNumber(right);
+      const dividend = toNumber(left);
+      if (divisor === 0) throw new FormulaError('#DIV/0!');
+      return checkNumber(dividend / divisor);
+    }
+    case '^':
+      return checkNumber(Math.pow(toNumber(left), toNumber(right)));
+    case '&': {
+      if (left instanceof FormulaError) throw left;
+      if (right instanceof FormulaError) throw right;
+      return formatFormulaValue(left) + formatFormulaValue(right);
+    }
+    case '=':
+      return compare(left, right) === 0;
+    case '<>':
+      return compare(left, right) !== 0;
+    case '<':
+      return compare(left, right) < 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>=':
+      return compare(left, right) >= 0;
+  }
+  throw new FormulaError('#ERROR!');
+}
+
+/**
+ * Numbers among the arguments, ranges expanded
+ * Text and empty cells inside ranges are skipped, like Excel
+ */
+function collectNumbers(args: FormulaNode[], context: FormulaContext): number[] {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (arg.type === 'range') {
+      for (const cell of expandRange(arg.from, arg.to)) {
+        const value = context.getValue(cell);
+        if (value instanceof FormulaError) throw value;
+        if (typeof value === 'number') numbers.push(value);
+      }
+    } else {
+      const value = evaluate(arg, context);
+      if (value !== null) numbers.push(toNumber(value));
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Cells a DENSITY or LEVEL argument points at
+ */
+function sheetCells(args: FormulaNode[]): CellAddress[] {
+  const [arg] = args;
+  if (args.length !== 1) throw new FormulaError('#VALUE!');
+  if (arg.type === 'ref') return [arg.cell];
+  if (arg.type === 'range') return expandRange(arg.from, arg.to);
+  throw new FormulaError('#REF!');
+}
+
+function requireArgs(args: FormulaNode[], min: number, max: number): void {
+  if (args.length < min || args.length > max) throw new FormulaError('#VALUE!');
+}
+
+function callFunction(name: string, args: FormulaNode[], context: FormulaContext): FormulaValue | null {
+  const number = (index: number) => toNumber(evaluate(args[index], context));
+
+  switch (name) {
+    case 'SUM':
+      return collectNumbers(args, context).reduce((sum, value) => sum + value, 0);
+    case 'AVERAGE': {
+      const numbers = collectNumbers(args, context);
+      if (numbers.length === 0) throw new FormulaError('#DIV/0!');
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    }
+    case 'MIN': {
+      const numbers = collectNumbers(args, context);
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    }
+    case 'MAX': {
+      const numbers = collectNumbers(args, context);
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    }
+    case 'COUNT':
+      return collectNumbers(args, context).length;
+    case 'ABS':
+      requireArgs(args, 1, 1);
+      return Math.abs(number(0));
+    case 'SQRT': {
+      requireArgs(args, 1, 1);
+      const value = number(0);
+      if (value < 0) throw new FormulaError('#VALUE!');
+      return Math.sqrt(value);
+    }
+    case 'ROUND': {
+      requireArgs(args, 1, 2);
+      const factor = Math.pow(10, args.length > 1 ? Math.trunc(number(1)) : 0);
+      return Math.round(number(0) * factor) / factor;
+    }
+    case 'IF':
+      requireArgs(args, 2, 3);
+      if (toBoolean(evaluate(args[0], context))) return evaluate(args[1], context);
+      return args.length > 2 ? evaluate(args[2], context) : false;
+    case 'AND':
+      requireArgs(args, 1, Infinity);
+      return args.every((arg) => toBoolean(evaluate(arg, context)));
+    case 'OR':
+      requireArgs(args, 1, Infinity);
+      return args.some((arg) => toBoolean(evaluate(arg, context)));
+    case 'NOT':
+      requireArgs(args, 1, 1);
+      return !toBoolean(evaluate(args[0], context));
+    case 'DENSITY': {
+      // Mean density over a range
+      const cells = sheetCells(args);
+      return cells.reduce((sum, cell) => sum + context.getDensity(cell), 0) / cells.length;
+    }
+    case 'LEVEL': {
+      // Deepest subdivision level over a range
+      const cells = sheetCells(args);
+      return Math.max(...cells.map((cell) => context.getLevel(cell)));
+    }
+  }
+  throw new FormulaError('#NAME?');
+}
@@ -0,0 +1,90 @@
+/**
+ * Frame capture for animated GIFs
+ *
+ * Copies the scene canvas into a small frame buffer at a fixed frame rate.
+ * Capture stops adding frames at a frame count or memory limit, so a
+ * forgotten recording cannot exhaust the tab.
+ */
+
+import type { CapturedAnimation, GifCaptureOptions } from '../types/spreadsheet';
+import type { DrawingContext } from './canvas';
+import { createLayerCanvas } from './renderer';
+import type { SceneCanvas } from './scene';
+
+// Most frames one recording keeps
+export const MAX_CAPTURE_FRAMES = 300;
+
+// Longest side of a captured frame in pixels
+export const MAX_CAPTURE_SIZE = 800;
+
+// Memory all captured frames may use together
+const MAX_CAPTURE_BYTES = 256 * 1024 * 1024;
+
+export class FrameCapture {
+  private ctx: DrawingContext;
+  private width: number;
+  private height: number;
+  private interval: number;
+  private nextTime: number | null = null;
+  private frames: ImageData[] = [];
+  private timestamps: number[] = [];
+  private truncated = false;
+
+  /**
+   * @param options - Frame rate and scale
+   * @param width - Sheet width in CSS pixels
+   * @param height - Sheet height in CSS pixels
+   */
+  constructor(options: GifCaptureOptions, width: number, height: number) {
+    const scale = Math.min(options.scale, MAX_CAPTURE_SIZE / Math.max(width, height, 1));
+    this.width = Math.max(1, Math.round(width * scale));
+    this.height = Math.max(1, Math.round(height * scale));
+    this.interval = 1000 / options.fps;
+
+    const canvas = createLayerCanvas(this.width, this.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as DrawingContext | null;
+    if (!ctx) {
+      throw new Error('2D canvas context is not available');
+    }
+    this.ctx = ctx;
+  }
+
+  /**
+   * Copy the canvas if a frame is due at currentTime
+   */
+  addFrame(source: SceneCanvas, currentTime: number): void {
+    if (this.nextTime !== null && currentTime < this.nextTime) return;
+
+    const frameBytes = this.width * this.height * 4;
+    if (
+      this.frames.length >= MAX_CAPTURE_FRAMES ||
+      (this.frames.length + 1) * frameBytes > MAX_CAPTURE_BYTES
+    ) {
+      this.truncated = true;
+      return;
+    }
+
+    // The on-screen canvas gets its white background from CSS
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.fillRect(0, 0, this.width, this.height);
+    this.ctx.drawImage(source, 0, 0, this.width, this.height);
+    this.frames.push(this.ctx.getImageData(0, 0, this.width, this.height));
+    this.timestamps.push(currentTime);
+
+    // Stay on the fps grid, skipping slots missed by slow frames
+    this.nextTime = (this.nextTime ?? currentTime) + this.interval;
+    if (this.nextTime <= currentTime) {
+      this.nextTime = currentTime + this.interval;
+    }
+  }
+
+  /**
+   * Captured frames, each shown until the next one was captured
+   */
+  finish(): CapturedAnimation {
+    const delays = this.timestamps.map((time, i) =>
+      i + 1 < this.timestamps.length ? this.timestamps[i + 1] - time : this.interval
+    );
+    return { frames: this.frames, delays, truncated: this.truncated };
+  }
+}
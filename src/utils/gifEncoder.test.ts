@@ -0,0 +1,189 @@
+import { describe, expect, test } from 'bun:test';
+import { encodeGif } from './gifEncoder';
+
+interface DecodedFrame {
+  delay: number; // Hundredths of a second
+  palette: number[][];
+  indices: number[];
+}
+
+// LZW decoder as GIF readers implement it, for round trips
+function decodeLzw(data: number[], minCodeSize: number, pixelCount: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const output: number[] = [];
+  let previous: number[] | null = null;
+  let bit = 0;
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+    } else if (code === table.length && previous) {
+      entry = [...previous, previous[0]];
+    } else {
+      throw new Error(`Invalid code ${code}`);
+    }
+    output.push(...entry);
+
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+
+  expect(output).toHaveLength(pixelCount);
+  return output;
+}
+
+// Frames of a GIF89a file, only what encodeGif writes
+function decodeGif(bytes: Uint8Array): { width: number; height: number; frames: DecodedFrame[] } {
+  let offset = 0;
+  const byte = () => bytes[offset++];
+  const short = () => byte() | (byte() << 8);
+  const subBlocks = () => {
+    const data: number[] = [];
+    for (let size = byte(); size > 0; size = byte()) {
+      for (let i = 0; i < size; i++) data.push(byte());
+    }
+    return data;
+  };
+
+  expect(String.fromCharCode(...bytes.slice(0, 6))).toBe('GIF89a');
+  offset = 6;
+  const width = short();
+  const height = short();
+  offset += 3;
+
+  const frames: DecodedFrame[] = [];
+  let delay = 0;
+  while (offset < bytes.length) {
+    const introducer = byte();
+    if (introducer === 0x3b) break;
+    if (introducer === 0x21) {
+      const label = byte();
+      const data = subBlocks();
+      if (label === 0xf9) delay = data[1] | (data[2] << 8);
+      continue;
+    }
+
+    expect(introducer).toBe(0x2c);
+    offset += 8;
+    const packed = byte();
+    const palette: number[][] = [];
+    for (let i = 0; i < 1 << ((packed & 7) + 1); i++) {
+      palette.push([byte(), byte(), byte()]);
+    }
+    const minCodeSize = byte();
+    frames.push({ delay, palette, indices: decodeLzw(subBlocks(), minCodeSize, width * height) });
+  }
+
+  return { width, height, frames };
+}
+
+function createFrame(width: number, height: number, color: (x: number, y: number) => number[]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data } as ImageData;
+}
+
+async function roundTrip(frames: ImageData[], delays: number[]) {
+  const blob = await encodeGif(frames, delays);
+  expect(blob.type).toBe('image/gif');
+  return decodeGif(new Uint8Array(await blob.arrayBuffer()));
+}
+
+// Pixels of a decoded frame as colors
+const pixels = (frame: DecodedFrame) => frame.indices.map((index) => frame.palette[index]);
+
+// Pixels of a source frame as colors
+const source = ({ data }: ImageData) =>
+  Array.from({ length: data.length / 4 }, (_, i) => [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]]);
+
+describe('encodeGif', () => {
+  test('round trips a frame with few colors exactly', async () => {
+    const frame = createFrame(7, 5, (x, y) =>
+      (x + y) % 3 === 0 ? [255, 0, 0] : x < 3 ? [0, 0, 255] : [0, 0, 0]
+    );
+    const gif = await roundTrip([frame], [100]);
+
+    expect([gif.width, gif.height]).toEqual([7, 5]);
+    expect(gif.frames).toHaveLength(1);
+    expect(pixels(gif.frames[0])).toEqual(source(frame));
+  });
+
+  test('grows code sizes and resets the full table without losing pixels', async () => {
+    // 256 colors in a pseudo-random order fill the 4096-code table several times
+    // Channels step by 32 or more, so colors stay apart in the encoder's 5-bit lookup
+    let seed = 1;
+    const frame = createFrame(160, 120, () => {
+      seed = (seed * 16807) % 2147483647;
+      const value = seed & 0xff;
+      return [(value & 7) * 32, ((value >> 3) & 7) * 32, (value >> 6) * 64];
+    });
+    const gif = await roundTrip([frame], [100]);
+
+    expect(gif.frames[0].palette).toHaveLength(256);
+    expect(pixels(gif.frames[0])).toEqual(source(frame));
+  });
+
+  test('compresses long runs of one color', async () => {
+    const frame = createFrame(200, 200, () => [10, 20, 30]);
+    const blob = await encodeGif([frame], [100]);
+    const gif = decodeGif(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(blob.size).toBeLessThan(1000);
+    expect(pixels(gif.frames[0]).every(([r, g, b]) => r === 10 && g === 20 && b === 30)).toBe(true);
+  });
+
+  test('writes each frame with its delay, never below 20ms', async () => {
+    const frames = [0, 1, 2].map((i) => createFrame(4, 4, () => [i * 100, 0, 0]));
+    const gif = await roundTrip(frames, [250, 5, 1000]);
+
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([25, 2, 100]);
+    expect(gif.frames.map((frame) => pixels(frame)[0])).toEqual([
+      [0, 0, 0],
+      [100, 0, 0],
+      [200, 0, 0],
+    ]);
+  });
+
+  test('reports progress and can be cancelled', async () => {
+    const frames = [0, 1, 2].map(() => createFrame(2, 2, () => [0, 0, 0]));
+    const progress: number[] = [];
+    await encodeGif(frames, [100, 100, 100], { onProgress: (done) => progress.push(done) });
+    expect(progress).toEqual([1, 2, 3]);
+
+    const controller = new AbortController();
+    const encoding = encodeGif(frames, [100, 100, 100], {
+      onProgress: () => controller.abort(),
+      signal: controller.signal,
+    });
+    await expect(encoding).rejects.toThrow('GIF encoding was cancelled');
+    await expect(encodeGif([], [])).rejects.toThrow('No frames to encode');
+  });
+});
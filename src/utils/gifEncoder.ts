@@ -0,0 +1,241 @@
+/**
+ * Animated GIF encoder
+ *
+ * Writes GIF89a files entirely in the browser: each frame gets its own
+ * median-cut palette of up to 256 colors and is LZW-compressed. Frames are
+ * encoded one at a time with a pause in between, so long recordings keep
+ * the page responsive and can report progress or be cancelled.
+ */
+
+import { PaletteQuantizer, createMedianCutPalette } from './palette';
+
+// GIF codes are at most 12 bits wide
+const MAX_CODE = 4096;
+
+// Shortest frame delay browsers honor, shorter delays get slowed down to 100ms
+const MIN_DELAY_CS = 2;
+
+export interface GifEncodeOptions {
+  /** Called after each frame with the number of frames done */
+  onProgress?: (done: number, total: number) => void;
+  /** Stops encoding with an AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  // Little-endian 16-bit value
+  short(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  text(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i));
+    }
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW compressor for GIF image data
+ *
+ * The string table is a direct-indexed array of (prefix code, next index)
+ * pairs. Entries are tagged with a generation, so a table reset is a single
+ * counter increment instead of clearing a million slots.
+ */
+class LzwEncoder {
+  private codes = new Int32Array(MAX_CODE * 256);
+  private generations = new Int32Array(MAX_CODE * 256);
+  private generation = 0;
+
+  encode(indices: Uint8Array, minCodeSize: number, out: ByteWriter): void {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+
+    // Bits are packed least significant first into 255-byte sub-blocks
+    const block = new Uint8Array(255);
+    let blockLength = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const flushBlock = () => {
+      if (blockLength === 0) return;
+      out.byte(blockLength);
+      for (let i = 0; i < blockLength; i++) out.byte(block[i]);
+      blockLength = 0;
+    };
+
+    const emit = (code: number) => {
+      bitBuffer |= code << bitCount;
+      bitCount += codeSize;
+      while (bitCount >= 8) {
+        block[blockLength++] = bitBuffer & 0xff;
+        if (blockLength === 255) flushBlock();
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+      }
+    };
+
+    out.byte(minCodeSize);
+    this.generation++;
+    emit(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const index = indices[i];
+      const key = (prefix << 8) | index;
+
+      if (this.generations[key] === this.generation) {
+        prefix = this.codes[key];
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode === MAX_CODE) {
+        // Table full: start over with fresh codes
+        emit(clearCode);
+        this.generation++;
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        this.generations[key] = this.generation;
+        this.codes[key] = nextCode++;
+      }
+      prefix = index;
+    }
+
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+    }
+    flushBlock();
+    out.byte(0); // Block terminator
+  }
+}
+
+function pause(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Encode frames as a looping animated GIF
+ *
+ * @param frames - Frames of equal size
+ * @param delays - Time each frame is shown (milliseconds)
+ * @param options - Progress callback and cancellation
+ */
+export async function encodeGif(
+  frames: ImageData[],
+  delays: number[],
+  options: GifEncodeOptions = {}
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  const { width, height } = frames[0];
+  const out = new ByteWriter();
+  const lzw = new LzwEncoder();
+
+  // Header and logical screen, colors come from per-frame tables
+  out.text('GIF89a');
+  out.short(width);
+  out.short(height);
+  out.byte(0); // No global color table
+  out.byte(0); // Background color index
+  out.byte(0); // Square pixels
+
+  // Loop forever
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(11);
+  out.text('NETSCAPE2.0');
+  out.byte(3);
+  out.byte(1);
+  out.short(0);
+  out.byte(0);
+
+  const indices = new Uint8Array(width * height);
+  const lookup = new Int16Array(1 << 15);
+
+  for (let f = 0; f < frames.length; f++) {
+    if (options.signal?.aborted) {
+      throw new DOMException('GIF encoding was cancelled', 'AbortError');
+    }
+
+    const { data } = frames[f];
+    const palette = createMedianCutPalette(data, 256);
+    const quantizer = new PaletteQuantizer(palette);
+
+    // Nearest colors looked up at 5 bits per channel
+    lookup.fill(-1);
+    for (let i = 0; i < indices.length; i++) {
+      const p = i * 4;
+      const key = ((data[p] >> 3) << 10) | ((data[p + 1] >> 3) << 5) | (data[p + 2] >> 3);
+      if (lookup[key] < 0) {
+        lookup[key] = quantizer.nearestIndex(data[p], data[p + 1], data[p + 2]);
+      }
+      indices[i] = lookup[key];
+    }
+
+    // Color tables hold a power of two entries, at least 4 for LZW
+    let tableBits = 1;
+    while (1 << tableBits < palette.length) tableBits++;
+    const minCodeSize = Math.max(2, tableBits);
+
+    // Graphic control: keep the frame, delay in hundredths of a second
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(1 << 2);
+    out.short(Math.max(MIN_DELAY_CS, Math.round((delays[f] ?? 100) / 10)));
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor with a local color table
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0x80 | (tableBits - 1));
+    for (let i = 0; i < 1 << tableBits; i++) {
+      const color = palette[i] ?? [0, 0, 0];
+      out.byte(color[0]);
+      out.byte(color[1]);
+      out.byte(color[2]);
+    }
+
+    lzw.encode(indices, minCodeSize, out);
+
+    options.onProgress?.(f + 1, frames.length);
+    await pause();
+  }
+
+  out.byte(0x3b); // Trailer
+  return new Blob([out.result()], { type: 'image/gif' });
+}
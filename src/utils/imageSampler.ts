@@ -0,0 +1,276 @@
+/**
+ * Cell color sampling from the inserted image
+ *
+ * Keeps a mip pyramid of the image, built once when the image loads, so every
+ * sampling mode costs a bounded number of texel reads per cell no matter how
+ * large the cell's footprint is:
+ * - center: the pixel under the cell center
+ * - average: area-weighted box average over the footprint, read from the mip
+ *   level where the footprint spans a few texels
+ * - median / dominant: a 4x4 grid of samples over the footprint, reduced to
+ *   the median-luminance sample or the largest k-means cluster
+ */
+
+import type { CellBounds, Rgb, SamplingMode } from '../types/spreadsheet';
+
+interface MipLevel {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+// Texels per axis the footprint should span when averaging
+const AVERAGE_TEXELS = 4;
+
+// Samples per axis for median and dominant color
+const GRID_SAMPLES = 4;
+
+// k-means settings for dominant color
+const CLUSTER_COUNT = 3;
+const CLUSTER_ITERATIONS = 4;
+
+function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Half-size level, each texel averaging up to 2x2 texels of the level above
+ *
+ * @param target - Level of the right size to write into, a new one is allocated if omitted
+ */
+function downsample(level: MipLevel, target?: MipLevel): MipLevel {
+  const width = Math.max(1, Math.ceil(level.width / 2));
+  const height = Math.max(1, Math.ceil(level.height / 2));
+  const data = target ? target.data : new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.min(level.height - 1, y * 2);
+    const sy1 = Math.min(level.height - 1, y * 2 + 1);
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.min(level.width - 1, x * 2);
+      const sx1 = Math.min(level.width - 1, x * 2 + 1);
+      const a = (sy0 * level.width + sx0) * 4;
+      const b = (sy0 * level.width + sx1) * 4;
+      const c = (sy1 * level.width + sx0) * 4;
+      const d = (sy1 * level.width + sx1) * 4;
+      const o = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        data[o + channel] =
+          (level.data[a + channel] + level.data[b + channel] + level.data[c + channel] + level.data[d + channel]) / 4;
+      }
+    }
+  }
+
+  return target ?? { width, height, data };
+}
+
+export class ImageSampler {
+  private levels: MipLevel[] = [];
+
+  constructor(image: ImageData) {
+    this.load(image);
+  }
+
+  /**
+   * Sample a new image, reusing the pyramid's buffers when it has the same size
+   * Video frames replace the image several times a second
+   */
+  load(image: ImageData): void {
+    const [base] = this.levels;
+    if (base && base.width === image.width && base.height === image.height) {
+      base.data = image.data;
+      for (let i = 1; i < this.levels.length; i++) {
+        downsample(this.levels[i - 1], this.levels[i]);
+      }
+      return;
+    }
+
+    this.levels = [{ width: image.width, height: image.height, data: image.data }];
+    let level = this.levels[0];
+    while (level.width > 1 || level.height > 1) {
+      level = downsample(level);
+      this.levels.push(level);
+    }
+  }
+
+  /**
+   * Color of a cell, or null when the cell center is outside the image
+   * Cell and image bounds must be in the same coordinate space
+   */
+  sampleCell(cell: CellBounds, imageBounds: CellBounds, mode: SamplingMode): Rgb | null {
+    const centerX = cell.x + cell.width / 2;
+    const centerY = cell.y + cell.height / 2;
+
+    // Check if cell center is within image bounds
+    if (
+      centerX < imageBounds.x ||
+      centerX > imageBounds.x + imageBounds.width ||
+      centerY < imageBounds.y ||
+      centerY > imageBounds.y + imageBounds.height
+    ) {
+      return null;
+    }
+
+    // Footprint in full-resolution pixels, clipped to the image
+    const { width, height } = this.levels[0];
+    const scaleX = width / imageBounds.width;
+    const scaleY = height / imageBounds.height;
+    const x0 = Math.max(0, (cell.x - imageBounds.x) * scaleX);
+    const y0 = Math.max(0, (cell.y - imageBounds.y) * scaleY);
+    const x1 = Math.min(width, (cell.x + cell.width - imageBounds.x) * scaleX);
+    const y1 = Math.min(height, (cell.y + cell.height - imageBounds.y) * scaleY);
+
+    switch (mode) {
+      case 'average':
+        return this.average(x0, y0, x1, y1);
+      case 'median':
+        return this.median(x0, y0, x1, y1);
+      case 'dominant':
+        return this.dominant(x0, y0, x1, y1);
+      case 'center':
+      default:
+        return this.texel(0, (centerX - imageBounds.x) * scaleX, (centerY - imageBounds.y) * scaleY);
+    }
+  }
+
+  /**
+   * Nearest texel of a mip level, position in full-resolution pixels
+   */
+  private texel(levelIndex: number, x: number, y: number): Rgb {
+    const level = this.levels[levelIndex];
+    const scale = 1 << levelIndex;
+    const tx = Math.max(0, Math.min(level.width - 1, Math.floor(x / scale)));
+    const ty = Math.max(0, Math.min(level.height - 1, Math.floor(y / scale)));
+    const i = (ty * level.width + tx) * 4;
+    return [level.data[i], level.data[i + 1], level.data[i + 2]];
+  }
+
+  /**
+   * Mip level whose texels are about footprint / divisions pixels wide
+   */
+  private levelFor(footprint: number, divisions: number): number {
+    const size = footprint / divisions;
+    const index = size > 1 ? Math.floor(Math.log2(size)) : 0;
+    return Math.min(this.levels.length - 1, index);
+  }
+
+  private average(x0: number, y0: number, x1: number, y1: number): Rgb {
+    const levelIndex = this.levelFor(Math.max(x1 - x0, y1 - y0), AVERAGE_TEXELS);
+    const level = this.levels[levelIndex];
+    const scale = 1 << levelIndex;
+
+    // Footprint in texels of the chosen level, spanning at most a handful per axis
+    const lx0 = x0 / scale;
+    const ly0 = y0 / scale;
+    const lx1 = Math.max(lx0 + 1e-6, x1 / scale);
+    const ly1 = Math.max(ly0 + 1e-6, y1 / scale);
+
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let total = 0;
+
+    for (let ty = Math.floor(ly0); ty < Math.ceil(ly1); ty++) {
+      const wy = Math.min(ly1, ty + 1) - Math.max(ly0, ty);
+      const row = Math.min(level.height - 1, ty) * level.width;
+      for (let tx = Math.floor(lx0); tx < Math.ceil(lx1); tx++) {
+        const weight = wy * (Math.min(lx1, tx + 1) - Math.max(lx0, tx));
+        const i = (row + Math.min(level.width - 1, tx)) * 4;
+        r += level.data[i] * weight;
+        g += level.data[i + 1] * weight;
+        b += level.data[i + 2] * weight;
+        total += weight;
+      }
+    }
+
+    return total > 0 ? [r / total, g / total, b / total] : this.texel(levelIndex, x0, y0);
+  }
+
+  /**
+   * Grid of samples over the footprint, from the level matching the grid spacing
+   */
+  private gridSamples(x0: number, y0: number, x1: number, y1: number): Rgb[] {
+    const levelIndex = this.levelFor(Math.max(x1 - x0, y1 - y0), GRID_SAMPLES);
+    const samples: Rgb[] = [];
+
+    for (let j = 0; j < GRID_SAMPLES; j++) {
+      const y = y0 + ((j + 0.5) / GRID_SAMPLES) * (y1 - y0);
+      for (let i = 0; i < GRID_SAMPLES; i++) {
+        const x = x0 + ((i + 0.5) / GRID_SAMPLES) * (x1 - x0);
+        samples.push(this.texel(levelIndex, x, y));
+      }
+    }
+
+    return samples;
+  }
+
+  /**
+   * Sample with the median luminance, so the result is a color actually in the cell
+   */
+  private median(x0: number, y0: number, x1: number, y1: number): Rgb {
+    const samples = this.gridSamples(x0, y0, x1, y1);
+    samples.sort((a, b) => luminance(...a) - luminance(...b));
+    return samples[Math.floor(samples.length / 2)];
+  }
+
+  /**
+   * Centroid of the largest k-means cluster of the samples
+   */
+  private dominant(x0: number, y0: number, x1: number, y1: number): Rgb {
+    const samples = this.gridSamples(x0, y0, x1, y1);
+
+    // Deterministic seeds spread across the luminance range
+    const sorted = [...samples].sort((a, b) => luminance(...a) - luminance(...b));
+    const centroids: Rgb[] = [];
+    for (let k = 0; k < CLUSTER_COUNT; k++) {
+      const seed = sorted[Math.floor(((k + 0.5) / CLUSTER_COUNT) * sorted.length)];
+      centroids.push([seed[0], seed[1], seed[2]]);
+    }
+
+    const assignments = new Array<number>(samples.length).fill(0);
+    const sizes = new Array<number>(CLUSTER_COUNT).fill(0);
+
+    for (let iteration = 0; iteration < CLUSTER_ITERATIONS; iteration++) {
+      // Assign each sample to its nearest centroid
+      samples.forEach((sample, s) => {
+        let best = 0;
+        let bestDistance = Infinity;
+        centroids.forEach((centroid, k) => {
+          const dr = sample[0] - centroid[0];
+          const dg = sample[1] - centroid[1];
+          const db = sample[2] - centroid[2];
+          const distance = dr * dr + dg * dg + db * db;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = k;
+          }
+        });
+        assignments[s] = best;
+      });
+
+      // Move centroids to the mean of their samples
+      sizes.fill(0);
+      const sums = centroids.map((): Rgb => [0, 0, 0]);
+      samples.forEach((sample, s) => {
+        const k = assignments[s];
+        sizes[k]++;
+        sums[k][0] += sample[0];
+        sums[k][1] += sample[1];
+        sums[k][2] += sample[2];
+      });
+      centroids.forEach((centroid, k) => {
+        if (sizes[k] > 0) {
+          centroid[0] = sums[k][0] / sizes[k];
+          centroid[1] = sums[k][1] / sizes[k];
+          centroid[2] = sums[k][2] / sizes[k];
+        }
+      });
+    }
+
+    let largest = 0;
+    for (let k = 1; k < CLUSTER_COUNT; k++) {
+      if (sizes[k] > sizes[largest]) largest = k;
+    }
+    return centroids[largest];
+  }
+}
@@ -2,7 +2,7 @@
  * Interpolation utilities for smooth mouse path rendering
  */
 
-import type { Point } from '../types/spreadsheet';
+import type { Point, BrushPoint } from '../types/spreadsheet';
 
 /**
  * Interpolates points along a line between two positions
@@ -43,7 +43,7 @@ export function interpolatePoints(p1: Point, p2: Point, stepSize: number): Point
 /**
  * Represents a point with a timestamp for tracking active interpolation points
  */
-export interface TimestampedPoint extends Point {
+export interface TimestampedPoint extends BrushPoint {
   timestamp: number;
 }
 
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import { PaletteQuantizer, createGrayscaleRamp, getPresetPalette, parsePaletteFile } from './palette';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+// RIFF PAL file with a padded chunk before the data chunk
+function createRiffPalette(colors: number[][]): ArrayBuffer {
+  const dataSize = 4 + colors.length * 4;
+  const buffer = new ArrayBuffer(12 + 10 + 8 + dataSize);
+  const view = new DataView(buffer);
+  const writeId = (offset: number, id: string) =>
+    [...id].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeId(0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeId(8, 'PAL ');
+  writeId(12, 'junk');
+  view.setUint32(16, 1, true);
+  writeId(22, 'data');
+  view.setUint32(26, dataSize, true);
+  view.setUint16(30, 0x300, true);
+  view.setUint16(32, colors.length, true);
+  colors.forEach(([r, g, b], i) => {
+    view.setUint8(34 + i * 4, r);
+    view.setUint8(35 + i * 4, g);
+    view.setUint8(36 + i * 4, b);
+  });
+  return buffer;
+}
+
+describe('parsePaletteFile', () => {
+  test('reads JASC-PAL files', () => {
+    const colors = parsePaletteFile(encode('JASC-PAL\r\n0100\r\n2\r\n255 0 0\r\n0 0 255\r\n'));
+    expect(colors).toEqual([
+      [255, 0, 0],
+      [0, 0, 255],
+    ]);
+  });
+
+  test('reads GIMP palettes, skipping headers, comments and color names', () => {
+    const colors = parsePaletteFile(encode('GIMP Palette\nName: Test\nColumns: 2\n#\n  0 128 255 Sky\n\n10 20 30\n'));
+    expect(colors).toEqual([
+      [0, 128, 255],
+      [10, 20, 30],
+    ]);
+  });
+
+  test('reads RIFF palettes past other chunks', () => {
+    expect(parsePaletteFile(createRiffPalette([[1, 2, 3], [4, 5, 6]]))).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+  });
+
+  test('describes what is wrong with a file', () => {
+    expect(() => parsePaletteFile(encode('hello'))).toThrow('Unrecognized palette format');
+    expect(() => parsePaletteFile(encode('JASC-PAL\n0100\n3\n0 0 0\n'))).toThrow('lists 3 colors but has 1');
+    expect(() => parsePaletteFile(encode('GIMP Palette\n0 0 300\n'))).toThrow('Invalid color on line 2');
+    expect(() => parsePaletteFile(encode('GIMP Palette\nName: Empty\n'))).toThrow('Palette has no colors');
+  });
+});
+
+describe('presets', () => {
+  test('have the sizes their names promise', () => {
+    expect(getPresetPalette('vga16')).toHaveLength(16);
+    expect(getPresetPalette('halftone256')).toHaveLength(256);
+    expect(getPresetPalette('gray4')).toEqual(createGrayscaleRamp(4));
+    expect(getPresetPalette('full')).toBeNull();
+    expect(createGrayscaleRamp(3)).toEqual([
+      [0, 0, 0],
+      [128, 128, 128],
+      [255, 255, 255],
+    ]);
+  });
+});
+
+describe('PaletteQuantizer', () => {
+  test('picks the nearest color after clamping', () => {
+    const quantizer = new PaletteQuantizer(createGrayscaleRamp(3));
+    expect(quantizer.nearest(100, 110, 120)).toEqual([128, 128, 128]);
+    expect(quantizer.nearest(-40, 20, 10)).toEqual([0, 0, 0]);
+    expect(quantizer.nearest(400, 400, 400)).toEqual([255, 255, 255]);
+    expect(quantizer.nearestIndex(250, 250, 250)).toBe(2);
+  });
+
+  test('spreads dithering by the step between neighboring colors', () => {
+    expect(new PaletteQuantizer(createGrayscaleRamp(2)).spread).toBeCloseTo(255, 6);
+    expect(new PaletteQuantizer([[9, 9, 9]]).spread).toBe(0);
+  });
+});
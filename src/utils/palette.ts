@@ -0,0 +1,353 @@
+/**
+ * Retro color palettes for cell fills
+ *
+ * Preset palettes from the Windows 95 era, palette file parsing (JASC-PAL,
+ * RIFF PAL and GIMP .gpl), median-cut palettes for images and a
+ * nearest-color quantizer.
+ */
+
+import type { PaletteKind, Rgb } from '../types/spreadsheet';
+
+export const PALETTE_KINDS: PaletteKind[] = ['full', 'vga16', 'halftone256', 'gray4', 'gray16', 'custom'];
+
+export const PALETTE_LABELS: Record<PaletteKind, string> = {
+  full: 'Full color',
+  vga16: 'Windows 16 colors',
+  halftone256: 'Windows 256 colors',
+  gray4: '4 grays',
+  gray16: '16 grays',
+  custom: 'Custom (.pal/.gpl)',
+};
+
+// Largest palette a file may hold, like an 8-bit display
+const MAX_PALETTE_SIZE = 256;
+
+// Entries in the nearest-color cache before it is cleared
+const MAX_CACHE_SIZE = 65536;
+
+function hexToRgb(hex: number): Rgb {
+  return [(hex >> 16) & 0xff, (hex >> 8) & 0xff, hex & 0xff];
+}
+
+// The 16 VGA colors in Windows' standard order
+const VGA_16 = [
+  0x000000, 0x800000, 0x008000, 0x808000, 0x000080, 0x800080, 0x008080, 0xc0c0c0,
+  0x808080, 0xff0000, 0x00ff00, 0xffff00, 0x0000ff, 0xff00ff, 0x00ffff, 0xffffff,
+].map(hexToRgb);
+
+// The 20 colors Windows reserves in every 256-color palette
+const SYSTEM_20 = [
+  0x000000, 0x800000, 0x008000, 0x808000, 0x000080, 0x800080, 0x008080, 0xc0c0c0, 0xc0dcc0, 0xa6caf0,
+  0xfffbf0, 0xa0a0a4, 0x808080, 0xff0000, 0x00ff00, 0xffff00, 0x0000ff, 0xff00ff, 0x00ffff, 0xffffff,
+].map(hexToRgb);
+
+/**
+ * Evenly spaced grays from black to white
+ */
+export function createGrayscaleRamp(levels: number): Rgb[] {
+  const ramp: Rgb[] = [];
+  for (let i = 0; i < levels; i++) {
+    const value = Math.round((i * 255) / (levels - 1));
+    ramp.push([value, value, value]);
+  }
+  return ramp;
+}
+
+/**
+ * Windows halftone palette: the system colors, the 6x6x6 color cube and a gray ramp
+ */
+function createHalftonePalette(): Rgb[] {
+  const colors: Rgb[] = [...SYSTEM_20];
+  const steps = [0x00, 0x33, 0x66, 0x99, 0xcc, 0xff];
+  for (const r of steps) {
+    for (const g of steps) {
+      for (const b of steps) {
+        colors.push([r, g, b]);
+      }
+    }
+  }
+
+  // Grays between the cube steps fill the rest
+  const grays = createGrayscaleRamp(22).slice(1, -1);
+  return [...colors, ...grays];
+}
+
+/**
+ * Colors of a preset palette, or null for full color and custom palettes
+ */
+export function getPresetPalette(kind: PaletteKind): Rgb[] | null {
+  switch (kind) {
+    case 'vga16':
+      return VGA_16;
+    case 'halftone256':
+      return createHalftonePalette();
+    case 'gray4':
+      return createGrayscaleRamp(4);
+    case 'gray16':
+      return createGrayscaleRamp(16);
+    default:
+      return null;
+  }
+}
+
+function parseRiffPalette(view: DataView): Rgb[] {
+  // RIFF header: "RIFF", size, "PAL ", then chunks
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    );
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'data') {
+      // Version, entry count, then one r, g, b, flags quad per entry
+      const count = view.getUint16(offset + 10, true);
+      const colors: Rgb[] = [];
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 12 + i * 4;
+        if (entry + 3 > view.byteLength) {
+          throw new Error('Palette file is truncated');
+        }
+        colors.push([view.getUint8(entry), view.getUint8(entry + 1), view.getUint8(entry + 2)]);
+      }
+      return colors;
+    }
+
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error('RIFF palette has no data chunk');
+}
+
+function parseColorLine(line: string, lineNumber: number): Rgb {
+  const values = line.trim().split(/\s+/).slice(0, 3).map(Number);
+  if (values.length < 3 || values.some((v) => !Number.isInteger(v) || v < 0 || v > 255)) {
+    throw new Error(`Invalid color on line ${lineNumber}: "${line.trim()}"`);
+  }
+  return values as Rgb;
+}
+
+function parseJascPalette(lines: string[]): Rgb[] {
+  // JASC-PAL, version, entry count, then one "r g b" line per entry
+  const count = Number(lines[2]);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('JASC palette is missing its color count');
+  }
+
+  const colors: Rgb[] = [];
+  for (let i = 0; i < count; i++) {
+    const line = lines[3 + i];
+    if (line === undefined || !line.trim()) {
+      throw new Error(`JASC palette lists ${count} colors but has ${i}`);
+    }
+    colors.push(parseColorLine(line, 4 + i));
+  }
+  return colors;
+}
+
+function parseGimpPalette(lines: string[]): Rgb[] {
+  const colors: Rgb[] = [];
+  lines.slice(1).forEach((line, i) => {
+    const trimmed = line.trim();
+    // Skip blank lines, comments and the Name/Columns headers
+    if (!trimmed || trimmed.startsWith('#') || /^[A-Za-z]+:/.test(trimmed)) return;
+    colors.push(parseColorLine(trimmed, i + 2));
+  });
+  return colors;
+}
+
+/**
+ * Parse a palette file: JASC-PAL or RIFF .pal, or GIMP .gpl
+ * Throws an Error describing the problem if the file is not a usable palette
+ */
+export function parsePaletteFile(data: ArrayBuffer): Rgb[] {
+  const view = new DataView(data);
+  const magic = String.fromCharCode(...new Uint8Array(data, 0, Math.min(4, data.byteLength)));
+
+  let colors: Rgb[];
+  if (magic === 'RIFF') {
+    colors = parseRiffPalette(view);
+  } else {
+    const lines = new TextDecoder().decode(data).split(/\r?\n/);
+    const header = lines[0]?.trim();
+    if (header === 'JASC-PAL') {
+      colors = parseJascPalette(lines);
+    } else if (header === 'GIMP Palette') {
+      colors = parseGimpPalette(lines);
+    } else {
+      throw new Error('Unrecognized palette format, expected JASC-PAL, RIFF PAL or GIMP palette');
+    }
+  }
+
+  if (colors.length === 0) {
+    throw new Error('Palette has no colors');
+  }
+  if (colors.length > MAX_PALETTE_SIZE) {
+    throw new Error(`Palette has ${colors.length} colors, at most ${MAX_PALETTE_SIZE} are supported`);
+  }
+  return colors;
+}
+
+/**
+ * Palette of at most maxColors for RGBA pixels, by median cut
+ * Images with few enough distinct colors get exactly those colors
+ *
+ * @param pixels - RGBA pixel data
+ * @param maxColors - Largest palette size (at most 256)
+ * @param maxSamples - Pixels considered, spread evenly over the image
+ */
+export function createMedianCutPalette(
+  pixels: Uint8ClampedArray,
+  maxColors: number,
+  maxSamples = 16384
+): Rgb[] {
+  const pixelCount = pixels.length / 4;
+  const step = Math.max(1, Math.floor(pixelCount / maxSamples));
+
+  // Packed 0xRRGGBB samples
+  const samples: number[] = [];
+  for (let i = 0; i < pixelCount; i += step) {
+    const p = i * 4;
+    samples.push((pixels[p] << 16) | (pixels[p + 1] << 8) | pixels[p + 2]);
+  }
+
+  const unique = [...new Set(samples)];
+  if (unique.length <= maxColors) {
+    return unique.map(hexToRgb);
+  }
+
+  const channel = (color: number, c: number) => (color >> (16 - c * 8)) & 0xff;
+
+  // Widest channel of a box and its range
+  const widest = (box: number[]): [number, number] => {
+    let best = 0;
+    let bestRange = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = 255;
+      let max = 0;
+      for (const color of box) {
+        const value = channel(color, c);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > bestRange) {
+        bestRange = max - min;
+        best = c;
+      }
+    }
+    return [best, bestRange];
+  };
+
+  // Repeatedly split the box with the widest spread at its median
+  const boxes: number[][] = [samples];
+  const ranges = [widest(samples)];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let targetRange = 0;
+    ranges.forEach(([, range], i) => {
+      if (boxes[i].length > 1 && range > targetRange) {
+        target = i;
+        targetRange = range;
+      }
+    });
+    if (target < 0) break;
+
+    const c = ranges[target][0];
+    const box = boxes[target].sort((a, b) => channel(a, c) - channel(b, c));
+    const middle = Math.floor(box.length / 2);
+    const lower = box.slice(0, middle);
+    const upper = box.slice(middle);
+    boxes.splice(target, 1, lower, upper);
+    ranges.splice(target, 1, widest(lower), widest(upper));
+  }
+
+  // Each box contributes its mean color
+  return boxes.map((box): Rgb => {
+    const sum = [0, 0, 0];
+    for (const color of box) {
+      sum[0] += channel(color, 0);
+      sum[1] += channel(color, 1);
+      sum[2] += channel(color, 2);
+    }
+    return [
+      Math.round(sum[0] / box.length),
+      Math.round(sum[1] / box.length),
+      Math.round(sum[2] / box.length),
+    ];
+  });
+}
+
+/**
+ * Maps colors to their nearest palette entry
+ */
+export class PaletteQuantizer {
+  readonly colors: Rgb[];
+  // Typical per-channel step between neighboring palette colors, used to scale dithering
+  readonly spread: number;
+  private cache = new Map<number, number>();
+
+  constructor(colors: Rgb[]) {
+    this.colors = colors;
+
+    // Mean distance from each color to its closest neighbor, spread over the three channels
+    let total = 0;
+    colors.forEach((color, i) => {
+      let closest = Infinity;
+      colors.forEach((other, j) => {
+        if (i !== j) {
+          const distance = Math.sqrt(this.distanceSquared(color, other[0], other[1], other[2]));
+          if (distance > 0) closest = Math.min(closest, distance);
+        }
+      });
+      if (closest < Infinity) total += closest;
+    });
+    this.spread = colors.length > 1 ? total / colors.length / Math.sqrt(3) : 0;
+  }
+
+  /**
+   * Nearest palette color, channels are clamped to 0-255 first
+   */
+  nearest(r: number, g: number, b: number): Rgb {
+    return this.colors[this.nearestIndex(r, g, b)];
+  }
+
+  /**
+   * Index of the nearest palette color, channels are clamped to 0-255 first
+   */
+  nearestIndex(r: number, g: number, b: number): number {
+    const cr = Math.max(0, Math.min(255, Math.round(r)));
+    const cg = Math.max(0, Math.min(255, Math.round(g)));
+    const cb = Math.max(0, Math.min(255, Math.round(b)));
+    const key = (cr << 16) | (cg << 8) | cb;
+
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    this.colors.forEach((color, i) => {
+      const distance = this.distanceSquared(color, cr, cg, cb);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+
+    if (this.cache.size >= MAX_CACHE_SIZE) {
+      this.cache.clear();
+    }
+    this.cache.set(key, best);
+    return best;
+  }
+
+  private distanceSquared(color: Rgb, r: number, g: number, b: number): number {
+    const dr = color[0] - r;
+    const dg = color[1] - g;
+    const db = color[2] - b;
+    return dr * dr + dg * dg + db * db;
+  }
+}
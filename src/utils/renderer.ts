@@ -0,0 +1,77 @@
+/**
+ * Pluggable cell renderers
+ *
+ * A CellRenderer draws the cell area of the sheet (fills, cell borders and
+ * subdivision lines). Headers and debug overlays are drawn by the scene.
+ */
+
+import type {
+  Point,
+  Config,
+  CellBounds,
+  RendererKind,
+  SamplingMode,
+  DitherMode,
+  SceneImage,
+} from '../types/spreadsheet';
+import type { DrawingContext } from './canvas';
+import type { DensitySimulation } from './simulation';
+import type { ImageSampler } from './imageSampler';
+import type { PaletteQuantizer } from './palette';
+import { Canvas2DRenderer } from './renderer2d';
+import { WebGL2Renderer } from './rendererWebGL';
+
+/**
+ * Everything a renderer needs to draw one frame
+ */
+export interface RenderFrame {
+  simulation: DensitySimulation;
+  config: Config;
+  debugMode: boolean;
+  gridlines: boolean; // Draw cell borders and subdivision lines
+  image: SceneImage | null;
+  imageBounds: CellBounds | null; // Image placement in sheet coordinates
+  sampler: ImageSampler | null; // Mip pyramid of the image, for cell colors
+  sampling: SamplingMode;
+  quantizer: PaletteQuantizer | null; // Palette reduction of image colors, null for full color
+  dither: DitherMode;
+  origin: Point; // Canvas position of the sheet origin (top-left of cell A1)
+  zoom: number; // Canvas pixels per sheet pixel; gridlines keep their on-screen weight
+  width: number; // Canvas size in CSS pixels
+  height: number;
+  dpr: number;
+}
+
+export interface CellRenderer {
+  readonly kind: RendererKind;
+  render(ctx: DrawingContext, frame: RenderFrame): void;
+  dispose(): void;
+}
+
+/**
+ * Create an offscreen drawing surface, falling back to a detached canvas element
+ */
+export function createLayerCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Create a renderer of the requested kind
+ * Falls back to Canvas2D when WebGL2 is not available
+ */
+export function createRenderer(kind: RendererKind): CellRenderer {
+  if (kind === 'webgl2') {
+    const renderer = WebGL2Renderer.create();
+    if (renderer) {
+      return renderer;
+    }
+    console.warn('WebGL2 is not available, falling back to Canvas2D rendering');
+  }
+  return new Canvas2DRenderer();
+}
@@ -0,0 +1,122 @@
+/**
+ * Canvas2D cell renderer
+ *
+ * Draws cells with one fillRect per final cell and one stroke per subdivision line.
+ */
+
+import type { CellBounds, SubdividedCell } from '../types/spreadsheet';
+import { drawCell, calculateImageBorderColor, type DrawingContext } from './canvas';
+import { densityToHeatColor } from './density';
+import type { CellRenderer, RenderFrame } from './renderer';
+import { resolveCellColors } from './cellColors';
+
+export class Canvas2DRenderer implements CellRenderer {
+  readonly kind = 'canvas2d' as const;
+
+  render(ctx: DrawingContext, frame: RenderFrame): void {
+    const { simulation, config, debugMode, gridlines, origin, zoom } = frame;
+    // Half a screen pixel, in the zoomed sheet coordinates the cells are drawn in
+    const lineWidth = 0.5 / zoom;
+
+    // Cell fill with its border, or just the fill when gridlines are hidden
+    const paintCell = (cell: CellBounds, fillColor: string, strokeColor: string, level: number) => {
+      if (gridlines) {
+        drawCell(ctx, cell, fillColor, strokeColor, level, lineWidth);
+      } else {
+        ctx.fillStyle = fillColor;
+        ctx.fillRect(cell.x, cell.y, cell.width, cell.height);
+      }
+    };
+
+    const baseCells = simulation.getBaseCells();
+
+    // Collect all subdivision lines and final cells
+    const allSubdivisionLines = simulation.getSubdivisionLines();
+    const imageCells: SubdividedCell[] = [];
+
+    // Cells are drawn in sheet coordinates
+    ctx.save();
+    ctx.translate(origin.x, origin.y);
+    ctx.scale(zoom, zoom);
+
+    baseCells.forEach((baseCell) => {
+      const density = baseCell.density ?? 0;
+      const subdivisionLevel = simulation.getSubdivisionLevel(baseCell.baseX, baseCell.baseY);
+
+      // Subdivide cell if needed
+      if (subdivisionLevel > 0) {
+        // Each final cell has its own level and density
+        const finalCells = simulation.getLeafCells(baseCell.baseX, baseCell.baseY);
+
+        if (debugMode) {
+          // Debug mode: just draw final subdivided cells with heat map
+          finalCells.forEach((subCell) => {
+            const heatColor = densityToHeatColor(subCell.density ?? 0);
+            paintCell(subCell, heatColor, '#808080', subCell.level);
+          });
+        } else {
+          // Normal mode: collect final cells for filling with image colors
+          imageCells.push(...finalCells);
+        }
+      } else {
+        // No subdivision - draw base cell
+        if (debugMode) {
+          // Debug mode: color by density (heat map)
+          const heatColor = densityToHeatColor(density);
+          paintCell(baseCell, heatColor, '#808080', 0);
+        } else {
+          // Normal mode: base cells stay white with base borders
+          const borderColor = calculateImageBorderColor(0, config.maxSubdivisionLevel);
+          paintCell(baseCell, '#ffffff', borderColor, 0);
+        }
+      }
+    });
+
+    // Draw all collected subdivision lines and fill cells (normal mode only)
+    if (!debugMode) {
+      // First, fill the final cells with image colors
+      // Colors are resolved together since dithering depends on neighboring cells
+      const imageColors = resolveCellColors(imageCells, frame);
+      imageCells.forEach((cell, i) => {
+        const color = imageColors[i];
+        if (color) {
+          const [r, g, b] = color.map(Math.round);
+          ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+          ctx.fillRect(cell.x, cell.y, cell.width, cell.height);
+        }
+      });
+
+      if (gridlines) {
+        // Then draw base cell borders (level 0)
+        baseCells.forEach((baseCell) => {
+          const borderColor = calculateImageBorderColor(0, config.maxSubdivisionLevel);
+          ctx.strokeStyle = borderColor;
+          ctx.lineWidth = lineWidth;
+          ctx.strokeRect(
+            baseCell.x + lineWidth / 2,
+            baseCell.y + lineWidth / 2,
+            baseCell.width - lineWidth,
+            baseCell.height - lineWidth
+          );
+        });
+
+        // Finally draw subdivision lines
+        // Lines are interior to their base cell and unique within it, so no dedup is needed
+        allSubdivisionLines.forEach((line) => {
+          ctx.strokeStyle = calculateImageBorderColor(line.level, config.maxSubdivisionLevel);
+          ctx.lineWidth = lineWidth;
+          ctx.beginPath();
+          ctx.moveTo(line.x1, line.y1);
+          ctx.lineTo(line.x2, line.y2);
+          ctx.stroke();
+        });
+      }
+    }
+
+    ctx.restore();
+  }
+
+  dispose(): void {
+    // Nothing to release, draws straight into the scene context
+  }
+}
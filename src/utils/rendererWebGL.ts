@@ -0,0 +1,413 @@
+/**
+ * WebGL2 cell renderer
+ *
+ * Draws every cell fill, cell border and subdivision line as one instanced quad,
+ * so a frame is a couple of draw calls regardless of subdivision level. Cell
+ * colors are sampled from the inserted image as a texture on the GPU, unless
+ * area sampling or a palette needs them resolved on the CPU.
+ *
+ * Renders into its own layer canvas, which is composited onto the scene context.
+ */
+
+import type { SceneImage, SubdividedCell } from '../types/spreadsheet';
+import { calculateImageBorderAlpha, type DrawingContext } from './canvas';
+import { densityToHeatRgb } from './density';
+import { createLayerCanvas, type CellRenderer, type RenderFrame } from './renderer';
+import { resolveCellColors } from './cellColors';
+
+const VERTEX_SHADER = `#version 300 es
+in vec4 a_rect;
+in vec4 a_fill;
+in vec4 a_border;
+in float a_sample;
+
+uniform vec2 u_resolution;
+uniform vec2 u_origin;
+uniform float u_zoom;
+
+out vec2 v_local;
+flat out vec2 v_size;
+flat out vec2 v_center;
+flat out vec4 v_fill;
+flat out vec4 v_border;
+flat out float v_sample;
+
+const vec2 CORNERS[6] = vec2[6](
+  vec2(0.0, 0.0), vec2(1.0, 0.0), vec2(0.0, 1.0),
+  vec2(0.0, 1.0), vec2(1.0, 0.0), vec2(1.0, 1.0)
+);
+
+void main() {
+  vec2 corner = CORNERS[gl_VertexID];
+  vec2 position = u_origin + (a_rect.xy + corner * a_rect.zw) * u_zoom;
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+
+  // Borders are measured on screen, the image is sampled in sheet coordinates
+  v_local = corner * a_rect.zw * u_zoom;
+  v_size = a_rect.zw * u_zoom;
+  v_center = a_rect.xy + a_rect.zw * 0.5;
+  v_fill = a_fill;
+  v_border = a_border;
+  v_sample = a_sample;
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_local;
+flat in vec2 v_size;
+flat in vec2 v_center;
+flat in vec4 v_fill;
+flat in vec4 v_border;
+flat in float v_sample;
+
+uniform float u_dpr;
+uniform bool u_hasImage;
+uniform vec4 u_imageBounds;
+uniform sampler2D u_image;
+
+out vec4 outColor;
+
+void main() {
+  vec4 base = v_fill;
+
+  // Fill from the image pixel under the cell center (same rule as Canvas2D)
+  if (v_sample > 0.5) {
+    vec2 uv = (v_center - u_imageBounds.xy) / u_imageBounds.zw;
+    if (!u_hasImage || any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+      base = vec4(0.0);
+    } else {
+      ivec2 size = textureSize(u_image, 0);
+      ivec2 texel = clamp(ivec2(floor(uv * vec2(size))), ivec2(0), size - 1);
+      base = vec4(texelFetch(u_image, texel, 0).rgb, 1.0);
+    }
+  }
+
+  // Half-pixel inner border, anti-aliased by pixel coverage
+  vec2 edge = min(v_local, v_size - v_local);
+  float distancePx = min(edge.x, edge.y) * u_dpr;
+  float coverage = clamp(0.5 * u_dpr - distancePx + 0.5, 0.0, 1.0) * v_border.a;
+
+  float alpha = coverage + base.a * (1.0 - coverage);
+  if (alpha <= 0.0) {
+    discard;
+  }
+  vec3 rgb = (v_border.rgb * coverage + base.rgb * base.a * (1.0 - coverage)) / alpha;
+  outColor = vec4(rgb, alpha);
+}
+`;
+
+// Floats per instance: rect (4) + fill (4) + border (4) + sample flag (1)
+const INSTANCE_FLOATS = 13;
+
+const WHITE = [1, 1, 1, 1];
+const TRANSPARENT = [0, 0, 0, 0];
+const DEBUG_BORDER = [128 / 255, 128 / 255, 128 / 255, 1];
+const GRID_GRAY = 128 / 255;
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error('Failed to create shader');
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext): WebGLProgram {
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error('Failed to create program');
+  }
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+/**
+ * Growable Float32Array of instance attributes
+ */
+class InstanceBuffer {
+  data = new Float32Array(INSTANCE_FLOATS * 1024);
+  count = 0;
+
+  reset(): void {
+    this.count = 0;
+  }
+
+  push(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    fill: ArrayLike<number>,
+    border: ArrayLike<number>,
+    sample: boolean
+  ): void {
+    if ((this.count + 1) * INSTANCE_FLOATS > this.data.length) {
+      const grown = new Float32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+
+    const data = this.data;
+    let i = this.count * INSTANCE_FLOATS;
+    data[i++] = x;
+    data[i++] = y;
+    data[i++] = width;
+    data[i++] = height;
+    data[i++] = fill[0];
+    data[i++] = fill[1];
+    data[i++] = fill[2];
+    data[i++] = fill[3];
+    data[i++] = border[0];
+    data[i++] = border[1];
+    data[i++] = border[2];
+    data[i++] = border[3];
+    data[i] = sample ? 1 : 0;
+    this.count++;
+  }
+}
+
+export class WebGL2Renderer implements CellRenderer {
+  readonly kind = 'webgl2' as const;
+
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private vao: WebGLVertexArrayObject;
+  private instanceBuffer: WebGLBuffer;
+  private texture: WebGLTexture;
+  private textureImage: SceneImage | null = null;
+  private instances = new InstanceBuffer();
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+
+  /**
+   * Create the renderer, or null when WebGL2 is not supported
+   */
+  static create(): WebGL2Renderer | null {
+    const canvas = createLayerCanvas(1, 1);
+    const gl = canvas.getContext('webgl2', {
+      premultipliedAlpha: false,
+      antialias: false,
+    }) as WebGL2RenderingContext | null;
+
+    if (!gl) {
+      return null;
+    }
+
+    try {
+      return new WebGL2Renderer(canvas, gl);
+    } catch (error) {
+      console.error('Failed to initialize WebGL2 renderer:', error);
+      return null;
+    }
+  }
+
+  private constructor(canvas: HTMLCanvasElement | OffscreenCanvas, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+    this.program = createProgram(gl);
+
+    const vao = gl.createVertexArray();
+    const instanceBuffer = gl.createBuffer();
+    const texture = gl.createTexture();
+    if (!vao || !instanceBuffer || !texture) {
+      throw new Error('Failed to allocate WebGL resources');
+    }
+    this.vao = vao;
+    this.instanceBuffer = instanceBuffer;
+    this.texture = texture;
+
+    // Per-instance attributes, interleaved
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    const stride = INSTANCE_FLOATS * 4;
+    const attributes: Array<[string, number, number]> = [
+      ['a_rect', 4, 0],
+      ['a_fill', 4, 4],
+      ['a_border', 4, 8],
+      ['a_sample', 1, 12],
+    ];
+    for (const [name, size, offset] of attributes) {
+      const location = gl.getAttribLocation(this.program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+    }
+    gl.bindVertexArray(null);
+
+    // Image texture is sampled with texelFetch, no filtering or mipmaps
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    this.uniforms = {};
+    for (const name of ['u_resolution', 'u_origin', 'u_zoom', 'u_dpr', 'u_hasImage', 'u_imageBounds', 'u_image']) {
+      this.uniforms[name] = gl.getUniformLocation(this.program, name);
+    }
+  }
+
+  private uploadImage(image: SceneImage | null): void {
+    if (image === this.textureImage) {
+      return;
+    }
+    this.textureImage = image;
+
+    if (image) {
+      const { gl } = this;
+      gl.bindTexture(gl.TEXTURE_2D, this.texture);
+      gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image.data);
+    }
+  }
+
+  /**
+   * Fill the instance buffer: cells first, then gridlines on top
+   */
+  private buildInstances(frame: RenderFrame): void {
+    const { simulation, config, debugMode, gridlines, dpr, zoom, sampling, quantizer } = frame;
+    const instances = this.instances;
+    instances.reset();
+
+    // The shader only does center taps at full color, other fills are resolved on the CPU
+    const sampleOnGpu = sampling === 'center' && !quantizer;
+    const cpuCells: SubdividedCell[] = [];
+
+    const baseCells = simulation.getBaseCells();
+    const baseBorder = gridlines ? [GRID_GRAY, GRID_GRAY, GRID_GRAY, calculateImageBorderAlpha(0)] : TRANSPARENT;
+    const debugBorder = gridlines ? DEBUG_BORDER : TRANSPARENT;
+
+    for (const baseCell of baseCells) {
+      const level = simulation.getSubdivisionLevel(baseCell.baseX, baseCell.baseY);
+
+      if (debugMode) {
+        // Heat map fill with a solid border on every final cell, colored by its own density
+        for (const cell of simulation.getLeafCells(baseCell.baseX, baseCell.baseY)) {
+          const [r, g, b] = densityToHeatRgb(cell.density ?? 0);
+          instances.push(cell.x, cell.y, cell.width, cell.height, [r / 255, g / 255, b / 255, 1], debugBorder, false);
+        }
+      } else if (level === 0) {
+        // Base cells stay white with base borders
+        instances.push(baseCell.x, baseCell.y, baseCell.width, baseCell.height, WHITE, baseBorder, false);
+      } else {
+        for (const cell of simulation.getLeafCells(baseCell.baseX, baseCell.baseY)) {
+          if (sampleOnGpu) {
+            instances.push(cell.x, cell.y, cell.width, cell.height, TRANSPARENT, TRANSPARENT, true);
+          } else {
+            cpuCells.push(cell);
+          }
+        }
+      }
+    }
+
+    const cpuColors = resolveCellColors(cpuCells, frame);
+    cpuCells.forEach((cell, i) => {
+      const rgb = cpuColors[i];
+      const fill = rgb ? [rgb[0] / 255, rgb[1] / 255, rgb[2] / 255, 1] : TRANSPARENT;
+      instances.push(cell.x, cell.y, cell.width, cell.height, fill, TRANSPARENT, false);
+    });
+
+    if (debugMode || !gridlines) {
+      return;
+    }
+
+    // Base cell borders (level 0) over the image fills
+    for (const baseCell of baseCells) {
+      instances.push(baseCell.x, baseCell.y, baseCell.width, baseCell.height, TRANSPARENT, baseBorder, false);
+    }
+
+    // Subdivision lines as thin quads, at least one device pixel wide so they
+    // always rasterize; alpha is scaled down to keep the 0.5px line weight
+    const screenLineWidth = Math.max(0.5, 1 / dpr);
+    const coverageScale = 0.5 / screenLineWidth;
+    const lineWidth = screenLineWidth / zoom;
+
+    // Per-level line colors
+    const lineColors: number[][] = [];
+    for (let level = 0; level <= config.maxSubdivisionLevel; level++) {
+      lineColors[level] = [GRID_GRAY, GRID_GRAY, GRID_GRAY, calculateImageBorderAlpha(level) * coverageScale];
+    }
+
+    for (const line of simulation.getSubdivisionLines()) {
+      const color = lineColors[line.level];
+      if (color[3] <= 0) continue;
+
+      if (line.x1 === line.x2) {
+        instances.push(line.x1 - lineWidth / 2, line.y1, lineWidth, line.y2 - line.y1, color, TRANSPARENT, false);
+      } else {
+        instances.push(line.x1, line.y1 - lineWidth / 2, line.x2 - line.x1, lineWidth, color, TRANSPARENT, false);
+      }
+    }
+  }
+
+  render(ctx: DrawingContext, frame: RenderFrame): void {
+    const { gl, canvas, uniforms } = this;
+    const { width, height, dpr, origin, zoom, image, imageBounds } = frame;
+
+    const pixelWidth = Math.max(1, Math.round(width * dpr));
+    const pixelHeight = Math.max(1, Math.round(height * dpr));
+    if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+    }
+
+    this.uploadImage(image);
+    this.buildInstances(frame);
+
+    gl.viewport(0, 0, pixelWidth, pixelHeight);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.useProgram(this.program);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.uniform2f(uniforms.u_origin, origin.x, origin.y);
+    gl.uniform1f(uniforms.u_zoom, zoom);
+    gl.uniform1f(uniforms.u_dpr, dpr);
+    gl.uniform1i(uniforms.u_hasImage, image && imageBounds ? 1 : 0);
+    if (imageBounds) {
+      gl.uniform4f(uniforms.u_imageBounds, imageBounds.x, imageBounds.y, imageBounds.width, imageBounds.height);
+    }
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.uniform1i(uniforms.u_image, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      this.instances.data.subarray(0, this.instances.count * INSTANCE_FLOATS),
+      gl.DYNAMIC_DRAW
+    );
+
+    gl.bindVertexArray(this.vao);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, this.instances.count);
+    gl.bindVertexArray(null);
+
+    // Composite the GL layer onto the scene (context is already scaled by dpr)
+    ctx.drawImage(canvas, 0, 0, width, height);
+  }
+
+  dispose(): void {
+    const { gl } = this;
+    gl.deleteBuffer(this.instanceBuffer);
+    gl.deleteVertexArray(this.vao);
+    gl.deleteTexture(this.texture);
+    gl.deleteProgram(this.program);
+  }
+}
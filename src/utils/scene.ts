@@ -0,0 +1,625 @@
+/**
+ * Spreadsheet scene
+ *
+ * Couples a DensitySimulation with a 2D canvas context and draws one frame at a
+ * time. Framework-free, so it runs on the main thread or inside a Web Worker
+ * with an OffscreenCanvas.
+ */
+
+import type {
+  Config,
+  CellAddress,
+  CellBounds,
+  CellEntry,
+  CellValue,
+  Point,
+  Viewport,
+  SceneOptions,
+  SceneImage,
+  ExportFormat,
+  SheetExportOptions,
+  DataExportOptions,
+  GifCaptureOptions,
+  CapturedAnimation,
+} from '../types/spreadsheet';
+import {
+  HEADER_WIDTH,
+  HEADER_HEIGHT,
+  HEADER_FONT_SIZE,
+  getVisibleWindow,
+  toSheetPoint,
+  clearCanvas,
+  drawColumnHeaders,
+  drawRowHeaders,
+  drawCornerHeader,
+  drawCellText,
+  type DrawingContext,
+} from './canvas';
+import { getSheetBrushConfig } from './density';
+import { DensitySimulation, type DensitySnapshot, type InputSample } from './simulation';
+import { createRenderer, createLayerCanvas, type CellRenderer, type RenderFrame } from './renderer';
+import { StrokePlayer, type StrokeLog } from './strokeLog';
+import { ImageDetail } from './imageDetail';
+import { ImageSampler } from './imageSampler';
+import { PaletteQuantizer } from './palette';
+import { canvasToBlob } from './files';
+import { buildSheetSvg } from './svgExport';
+import { buildSheetTable } from './dataExport';
+import { FrameCapture } from './frameCapture';
+import { CellSheet } from './cellSheet';
+
+export type SceneCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Longest side of an exported image, within every browser's canvas limits
+const MAX_EXPORT_SIZE = 16384;
+
+// Smallest cell height on screen (CSS pixels) that text is drawn in
+const MIN_TEXT_CELL_HEIGHT = 14;
+
+/**
+ * Where and how a frame of the sheet is drawn
+ */
+interface DrawTarget {
+  ctx: DrawingContext;
+  renderer: CellRenderer;
+  dpr: number;
+  headers: boolean; // Row and column headers
+  gridlines: boolean; // Cell borders and subdivision lines
+  overlays: boolean; // Debug cursors and the selected cell
+}
+
+/**
+ * Create default scene options
+ */
+export function createDefaultSceneOptions(): SceneOptions {
+  return {
+    debugMode: false,
+    imageScale: 1,
+    renderer: 'canvas2d',
+    sampling: 'center',
+    palette: null,
+    dither: 'none',
+  };
+}
+
+export class SpreadsheetScene {
+  private canvas: SceneCanvas;
+  private ctx: DrawingContext;
+  private simulation: DensitySimulation;
+  private config: Config;
+  private options: SceneOptions = createDefaultSceneOptions();
+  private image: SceneImage | null = null;
+  private imageDetail: ImageDetail | null = null;
+  private imageSampler: ImageSampler | null = null;
+  private quantizer: PaletteQuantizer | null = null;
+  private renderer: CellRenderer;
+  private width = 0;
+  private height = 0;
+  private dpr = 1;
+  private lastFrameTime: number;
+  private player: StrokePlayer | null = null;
+  private replaySpeed = 1;
+  private capture: FrameCapture | null = null;
+  private cellSheet = new CellSheet({
+    getDensity: (cell) => this.simulation.getDensity(cell.col, cell.row),
+    getLevel: (cell) => this.simulation.getSubdivisionLevel(cell.col, cell.row),
+  });
+  // Formula results last written into the sheet, keyed by cell, so unchanged ones are left alone
+  private drivenValues = new Map<string, number>();
+  private selection: CellAddress | null = null;
+  private viewport: Viewport = { x: 0, y: 0, zoom: 1 };
+
+  /**
+   * @param canvas - Canvas to draw into (on-screen or offscreen)
+   * @param config - Density configuration
+   * @param startTime - Clock value of the first frame (milliseconds)
+   */
+  constructor(canvas: SceneCanvas, config: Config, startTime: number) {
+    const ctx = canvas.getContext('2d') as DrawingContext | null;
+    if (!ctx) {
+      throw new Error('2D canvas context is not available');
+    }
+
+    this.canvas = canvas;
+    this.ctx = ctx;
+    this.config = config;
+    this.lastFrameTime = startTime;
+    this.simulation = new DensitySimulation(config, { columns: 0, rows: 0 }, startTime);
+    this.renderer = createRenderer(this.options.renderer);
+  }
+
+  /**
+   * Resize the backing store, handling device pixel ratio for crisp rendering
+   */
+  resize(width: number, height: number, dpr: number): void {
+    this.width = width;
+    this.height = height;
+    this.dpr = dpr;
+    this.canvas.width = width * dpr;
+    this.canvas.height = height * dpr;
+    this.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    // A replay keeps the grid size of its recording
+    if (!this.player) {
+      this.simulation.setWindow(this.getVisibleWindow());
+    }
+  }
+
+  setConfig(config: Config): void {
+    this.config = config;
+
+    // A replay uses the config recorded in its log
+    if (!this.player) {
+      this.simulation.setConfig(this.getSimulationConfig());
+      this.simulation.setWindow(this.getVisibleWindow());
+    }
+  }
+
+  /**
+   * Scroll or zoom the sheet, the cells in view are the ones simulated
+   */
+  setViewport(viewport: Viewport): void {
+    const zoomChanged = viewport.zoom !== this.viewport.zoom;
+    this.viewport = { ...viewport };
+    if (!this.player) {
+      // A screen-space brush changes size on the sheet with the zoom
+      if (zoomChanged) {
+        this.simulation.setConfig(this.getSimulationConfig());
+      }
+      this.simulation.setWindow(this.getVisibleWindow());
+    }
+  }
+
+  setOptions(options: Partial<SceneOptions>): void {
+    const previousPalette = this.options.palette;
+    this.options = { ...this.options, ...options };
+
+    // Swap renderer backends without touching the simulation
+    if (this.options.renderer !== this.renderer.kind) {
+      this.renderer.dispose();
+      this.renderer = createRenderer(this.options.renderer);
+    }
+
+    // The quantizer caches nearest colors, so it is only rebuilt for a new palette
+    const { palette } = this.options;
+    if (palette !== previousPalette) {
+      this.quantizer = palette ? new PaletteQuantizer(palette) : null;
+    }
+  }
+
+  setImage(image: SceneImage | null): void {
+    const previous = this.image;
+    this.image = image;
+    // Analysed when adaptive subdivision first needs it, see getImageDetail
+    this.imageDetail = null;
+
+    // Mip pyramid built up front so area sampling stays constant-time per cell
+    if (!image) {
+      this.imageSampler = null;
+    } else if (this.imageSampler) {
+      this.imageSampler.load(image.data);
+    } else {
+      this.imageSampler = new ImageSampler(image.data);
+    }
+
+    // Only the debug overlay draws the bitmap, and a playing video sends a new one per frame
+    if (previous && previous.bitmap !== image?.bitmap) {
+      previous.bitmap.close();
+    }
+  }
+
+  /**
+   * Detail analysis of the image, built once per image while adaptive subdivision is on
+   */
+  private getImageDetail(): ImageDetail | null {
+    if (!this.image || this.simulation.getConfig().subdivisionMode !== 'adaptive') {
+      return null;
+    }
+    this.imageDetail ??= new ImageDetail(this.image.data);
+    return this.imageDetail;
+  }
+
+  /**
+   * Feed a pointer sample in canvas coordinates
+   */
+  addSample(sample: InputSample): void {
+    // Live input is ignored while a replay is running
+    if (this.player) return;
+
+    // Simulation works in sheet coordinates (origin at cell A1, unzoomed)
+    this.simulation.addSample({ ...sample, ...toSheetPoint(sample.x, sample.y, this.viewport) });
+  }
+
+  endStroke(pointerId?: number): void {
+    if (this.player) return;
+    this.simulation.endStroke(pointerId);
+  }
+
+  /**
+   * Replay a stroke log from an empty sheet
+   *
+   * @param speed - Playback speed (1 = recorded speed). Only changes pacing,
+   * the simulated frames are the same at every speed.
+   */
+  replay(log: StrokeLog, speed: number): void {
+    this.player = new StrokePlayer(log);
+    this.replaySpeed = speed;
+    this.simulation = this.player.simulation;
+  }
+
+  // Hand the replayed sheet back to live painting
+  private finishReplay(currentTime: number): void {
+    this.player = null;
+    this.simulation.shiftClock(currentTime - this.simulation.time);
+    this.simulation.endStroke();
+    this.simulation.setConfig(this.getSimulationConfig());
+    this.simulation.setWindow(this.getVisibleWindow());
+    // The replayed sheet has none of them yet
+    this.drivenValues.clear();
+  }
+
+  /**
+   * Advance the simulation to currentTime and draw
+   */
+  frame(currentTime: number): void {
+    // Calculate delta time in seconds
+    const deltaTime = (currentTime - this.lastFrameTime) / 1000;
+    this.lastFrameTime = currentTime;
+
+    // Image placement follows canvas size and image scale, so refresh it every frame
+    this.simulation.setImageDetail(
+      this.getImageDetail(),
+      this.image ? this.getSheetImageBounds(this.image) : null
+    );
+
+    if (this.player) {
+      this.player.advance(deltaTime * 1000 * this.replaySpeed);
+      if (this.player.finished) {
+        this.finishReplay(currentTime);
+      }
+    } else {
+      this.simulation.step(deltaTime);
+    }
+
+    // Formulas reading DENSITY follow the sheet, and may drive it in turn
+    this.cellSheet.refresh();
+    if (!this.player) {
+      this.applyDrivenDensities();
+    }
+
+    this.draw();
+    this.capture?.addFrame(this.canvas, currentTime);
+  }
+
+  /**
+   * Write formula results that changed since the last frame into the sheet
+   * Between changes, driven cells subdivide and decay like painted ones
+   */
+  private applyDrivenDensities(): void {
+    const previous = this.drivenValues;
+    this.drivenValues = new Map();
+    const changed: CellValue[] = [];
+
+    for (const cell of this.cellSheet.getDrivenDensities()) {
+      const key = `${cell.col}:${cell.row}`;
+      this.drivenValues.set(key, cell.value);
+      if (previous.get(key) !== cell.value) {
+        changed.push(cell);
+      }
+    }
+
+    if (changed.length > 0) {
+      this.simulation.setDensities(changed);
+    }
+  }
+
+  /**
+   * Write values (densities between 0 and 1) into base cells
+   * Ends a running replay first, so the values land on the live sheet
+   */
+  setDensities(values: CellValue[]): void {
+    if (this.player) {
+      this.finishReplay(this.lastFrameTime);
+    }
+    this.simulation.setDensities(values);
+  }
+
+  /**
+   * Replace what is typed into the cells and recalculate formulas
+   */
+  setCells(entries: CellEntry[]): void {
+    this.cellSheet.setEntries(entries);
+  }
+
+  /**
+   * Outline a cell as the one being edited, null for none
+   */
+  setSelection(cell: CellAddress | null): void {
+    this.selection = cell;
+  }
+
+  /**
+   * Density state of the sheet, for saving in a workbook
+   */
+  snapshotDensity(): DensitySnapshot {
+    return this.simulation.snapshot();
+  }
+
+  /**
+   * Replace the sheet with saved density state, or an empty sheet for null
+   * Takes the config the state was saved with and stops a running replay
+   */
+  restoreDensity(config: Config, snapshot: DensitySnapshot | null): void {
+    this.player = null;
+    this.config = config;
+    const simulationConfig = this.getSimulationConfig();
+    this.simulation = snapshot
+      ? DensitySimulation.fromSnapshot(simulationConfig, snapshot, this.lastFrameTime)
+      : new DensitySimulation(simulationConfig, { columns: 0, rows: 0 }, this.lastFrameTime);
+    this.simulation.setWindow(this.getVisibleWindow());
+    this.drivenValues.clear();
+  }
+
+  /**
+   * Start copying drawn frames for an animated GIF, replacing any running capture
+   */
+  startCapture(options: GifCaptureOptions): void {
+    this.capture = new FrameCapture(options, this.width, this.height);
+  }
+
+  /**
+   * Stop capturing and return the frames, empty if no capture was running
+   */
+  stopCapture(): CapturedAnimation {
+    const animation = this.capture?.finish() ?? { frames: [], delays: [], truncated: false };
+    this.capture = null;
+    return animation;
+  }
+
+  private getVisibleWindow() {
+    return getVisibleWindow(this.width, this.height, this.viewport, this.config);
+  }
+
+  private getSimulationConfig(): Config {
+    return getSheetBrushConfig(this.config, this.viewport.zoom);
+  }
+
+  // Canvas position of a point in sheet coordinates
+  private toCanvasPoint(x: number, y: number): Point {
+    const { x: scrollX, y: scrollY, zoom } = this.viewport;
+    return { x: HEADER_WIDTH + x * zoom - scrollX, y: HEADER_HEIGHT + y * zoom - scrollY };
+  }
+
+  // Canvas rectangle of a rectangle in sheet coordinates
+  private toCanvasBounds(bounds: CellBounds): CellBounds {
+    const { zoom } = this.viewport;
+    return { ...this.toCanvasPoint(bounds.x, bounds.y), width: bounds.width * zoom, height: bounds.height * zoom };
+  }
+
+  // Image fitted inside the canvas with padding, scaled from center (canvas coordinates)
+  private getImageBounds(image: SceneImage): CellBounds {
+    const padding = 60;
+    const availableWidth = this.width - (2 * padding);
+    const availableHeight = this.height - (2 * padding);
+
+    // Calculate scaling to fit within available space while maintaining aspect ratio
+    const imageAspect = image.bitmap.width / image.bitmap.height;
+    const availableAspect = availableWidth / availableHeight;
+
+    let baseWidth: number;
+    let baseHeight: number;
+
+    if (imageAspect > availableAspect) {
+      // Image is wider than available space - fit to width
+      baseWidth = availableWidth;
+      baseHeight = availableWidth / imageAspect;
+    } else {
+      // Image is taller than available space - fit to height
+      baseHeight = availableHeight;
+      baseWidth = availableHeight * imageAspect;
+    }
+
+    // Apply scale from center
+    const drawWidth = baseWidth * this.options.imageScale;
+    const drawHeight = baseHeight * this.options.imageScale;
+
+    // Center the image (always centered regardless of scale)
+    return {
+      x: (this.width - drawWidth) / 2,
+      y: (this.height - drawHeight) / 2,
+      width: drawWidth,
+      height: drawHeight,
+    };
+  }
+
+  // Image bounds shifted into sheet coordinates
+  private getSheetImageBounds(image: SceneImage): CellBounds {
+    const bounds = this.getImageBounds(image);
+    return {
+      ...bounds,
+      x: bounds.x - HEADER_WIDTH,
+      y: bounds.y - HEADER_HEIGHT,
+    };
+  }
+
+  /**
+   * Export the current sheet as a PNG or SVG file
+   */
+  async exportSheet(format: ExportFormat, options: SheetExportOptions): Promise<Blob> {
+    if (format === 'svg') {
+      const svg = buildSheetSvg(this.createRenderFrame(options.gridlines, 1), options);
+      return new Blob([svg], { type: 'image/svg+xml' });
+    }
+    return this.exportPng(options);
+  }
+
+  /**
+   * Export per-cell values of the current sheet as a CSV or TSV file
+   */
+  async exportData(options: DataExportOptions): Promise<Blob> {
+    const frame = this.createRenderFrame(false, 1);
+    const { image } = this;
+    // Colors are sampled from the image even while debug mode shows heat colors
+    const table = buildSheetTable(
+      { ...frame, imageBounds: image ? this.getSheetImageBounds(image) : null },
+      options
+    );
+    const type = options.format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+    return new Blob([table], { type });
+  }
+
+  /**
+   * Render the current sheet to a PNG at a higher resolution than the screen
+   * Always drawn with Canvas2D so the export matches the on-screen drawing functions
+   */
+  private async exportPng(options: SheetExportOptions): Promise<Blob> {
+    const originX = options.headers ? 0 : HEADER_WIDTH;
+    const originY = options.headers ? 0 : HEADER_HEIGHT;
+    const regionWidth = Math.max(1, this.width - originX);
+    const regionHeight = Math.max(1, this.height - originY);
+
+    const requestedScale = options.targetWidth ? options.targetWidth / regionWidth : options.scale;
+    const scale = Math.min(requestedScale, MAX_EXPORT_SIZE / Math.max(regionWidth, regionHeight));
+
+    const canvas = createLayerCanvas(
+      Math.max(1, Math.round(regionWidth * scale)),
+      Math.max(1, Math.round(regionHeight * scale))
+    );
+    const ctx = canvas.getContext('2d') as DrawingContext | null;
+    if (!ctx) {
+      throw new Error('2D canvas context is not available');
+    }
+
+    // The on-screen canvas gets its white background from CSS
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(scale, 0, 0, scale, -originX * scale, -originY * scale);
+
+    const renderer = createRenderer('canvas2d');
+    this.drawSheet({
+      ctx,
+      renderer,
+      dpr: scale,
+      headers: options.headers,
+      gridlines: options.gridlines,
+      overlays: false,
+    });
+    renderer.dispose();
+
+    return canvasToBlob(canvas);
+  }
+
+  private draw(): void {
+    // Clear canvas
+    clearCanvas(this.ctx, this.width, this.height);
+    this.drawSheet({
+      ctx: this.ctx,
+      renderer: this.renderer,
+      dpr: this.dpr,
+      headers: true,
+      gridlines: true,
+      overlays: true,
+    });
+  }
+
+  private createRenderFrame(gridlines: boolean, dpr: number): RenderFrame {
+    const { simulation, image } = this;
+    const { debugMode, sampling, dither } = this.options;
+
+    return {
+      simulation,
+      config: simulation.getConfig(),
+      debugMode,
+      gridlines,
+      image,
+      // Image bounds for cell coloring, shifted into sheet coordinates (normal mode only)
+      imageBounds: image && !debugMode ? this.getSheetImageBounds(image) : null,
+      sampler: this.imageSampler,
+      sampling,
+      quantizer: this.quantizer,
+      dither,
+      origin: this.toCanvasPoint(0, 0),
+      zoom: this.viewport.zoom,
+      width: this.width,
+      height: this.height,
+      dpr,
+    };
+  }
+
+  private drawSheet(target: DrawTarget): void {
+    const { ctx, renderer } = target;
+    const { simulation, image } = this;
+    const config = simulation.getConfig();
+    const { debugMode } = this.options;
+
+    const { col: firstCol, row: firstRow, columns, rows } = simulation.window;
+    const { x: scrollX, y: scrollY, zoom } = this.viewport;
+
+    // Cells scroll under the headers, so everything in the sheet is clipped to the cell area
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(HEADER_WIDTH, HEADER_HEIGHT, this.width - HEADER_WIDTH, this.height - HEADER_HEIGHT);
+    ctx.clip();
+
+    renderer.render(ctx, this.createRenderFrame(target.gridlines, target.dpr));
+    this.drawCellContents(ctx);
+
+    // Draw inserted image with opacity (debug mode only)
+    if (debugMode && image) {
+      const bounds = this.toCanvasBounds(this.getSheetImageBounds(image));
+      ctx.globalAlpha = 0.5;
+      ctx.drawImage(image.bitmap, bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.globalAlpha = 1.0;
+    }
+
+    // Draw every pointer's cursor position (debug)
+    if (debugMode && target.overlays) {
+      for (const cursor of simulation.cursors) {
+        const { x, y } = this.toCanvasPoint(cursor.x, cursor.y);
+        const color = (cursor.strength ?? 1) < 0 ? '0, 0, 255' : '255, 0, 0'; // Blue while erasing
+        ctx.fillStyle = `rgba(${color}, 0.5)`;
+        ctx.beginPath();
+        ctx.arc(x, y, 5, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Draw influence radius
+        ctx.strokeStyle = `rgba(${color}, 0.3)`;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(x, y, config.influenceRadius * zoom, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    // Selected cell, outlined like Excel's active cell
+    if (target.overlays && this.selection) {
+      const bounds = this.toCanvasBounds(simulation.getBaseCell(this.selection.col, this.selection.row));
+      ctx.strokeStyle = '#000000';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(bounds.x + 1, bounds.y + 1, bounds.width - 2, bounds.height - 2);
+    }
+    ctx.restore();
+
+    // Headers scroll along with the cells, the corner stays on top of both
+    if (target.headers) {
+      drawColumnHeaders(ctx, columns, config.baseCellWidth * zoom, HEADER_WIDTH, HEADER_HEIGHT, firstCol, scrollX);
+      drawRowHeaders(ctx, rows, config.baseCellHeight * zoom, HEADER_WIDTH, HEADER_HEIGHT, firstRow, scrollY);
+      drawCornerHeader(ctx, HEADER_WIDTH, HEADER_HEIGHT);
+    }
+  }
+
+  // Values and formula results, in cells zoomed large enough to hold a line of text
+  private drawCellContents(ctx: DrawingContext): void {
+    const { zoom } = this.viewport;
+    const config = this.simulation.getConfig();
+    if (config.baseCellHeight * zoom < MIN_TEXT_CELL_HEIGHT) return;
+
+    const { col: firstCol, row: firstRow, columns, rows } = this.simulation.window;
+    for (const cell of this.cellSheet.getDisplayedCells()) {
+      if (cell.col < firstCol || cell.row < firstRow) continue;
+      if (cell.col >= firstCol + columns || cell.row >= firstRow + rows) continue;
+      const bounds = this.toCanvasBounds(this.simulation.getBaseCell(cell.col, cell.row));
+      drawCellText(ctx, bounds, cell.text, cell.align, HEADER_FONT_SIZE * zoom);
+    }
+  }
+}
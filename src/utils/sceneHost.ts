@@ -0,0 +1,390 @@
+/**
+ * Scene hosts
+ *
+ * A SceneHost is the main thread's handle on a SpreadsheetScene. The scene
+ * either runs in a Web Worker drawing into an OffscreenCanvas, or directly on
+ * the main thread when OffscreenCanvas is not supported.
+ */
+
+import type {
+  Config,
+  CellAddress,
+  CellEntry,
+  CellValue,
+  Viewport,
+  SceneOptions,
+  SceneImage,
+  ExportFormat,
+  SheetExportOptions,
+  DataExportOptions,
+  GifCaptureOptions,
+  CapturedAnimation,
+} from '../types/spreadsheet';
+import type { SpreadsheetWorkerMessage, SpreadsheetWorkerReply } from '../types/worker';
+import type { DensitySnapshot, InputSample } from './simulation';
+import type { StrokeLog } from './strokeLog';
+import { SpreadsheetScene } from './scene';
+
+// Built as a separate entrypoint (see package.json build script and src/index.tsx)
+const WORKER_URL = '/workers/spreadsheet.worker.js';
+
+export interface SceneHost {
+  resize(width: number, height: number, dpr: number): void;
+  setConfig(config: Config): void;
+  setOptions(options: Partial<SceneOptions>): void;
+  setImage(image: SceneImage | null): void;
+  /** Sample in canvas coordinates, timestamp from the main thread's performance.now() */
+  addSample(sample: InputSample): void;
+  /** End one pointer's stroke, or every stroke when no pointer id is given */
+  endStroke(pointerId?: number): void;
+  replay(log: StrokeLog, speed: number): void;
+  /** Write values (densities between 0 and 1) into base cells */
+  setDensities(values: CellValue[]): void;
+  /** Replace what is typed into the cells */
+  setCells(entries: CellEntry[]): void;
+  /** Outline the selected cell, null for none */
+  setSelection(cell: CellAddress | null): void;
+  /** Scroll or zoom the sheet */
+  setViewport(viewport: Viewport): void;
+  /** Density state of the sheet, for saving in a workbook */
+  snapshotDensity(): Promise<DensitySnapshot>;
+  /** Replace the sheet with saved density state, or an empty sheet for null */
+  restoreDensity(config: Config, snapshot: DensitySnapshot | null): void;
+  /** Export the current sheet as a PNG or SVG file */
+  exportSheet(format: ExportFormat, options: SheetExportOptions): Promise<Blob>;
+  /** Export per-cell values as a CSV or TSV file */
+  exportData(options: DataExportOptions): Promise<Blob>;
+  /** Start capturing drawn frames for an animated GIF */
+  startCapture(options: GifCaptureOptions): void;
+  /** Stop capturing and return the captured frames */
+  stopCapture(): Promise<CapturedAnimation>;
+  dispose(): void;
+}
+
+export interface SceneHostOptions {
+  /** Run the scene in a worker when the browser supports it (default true) */
+  allowWorker?: boolean;
+  /** Called once if the worker fails, after its pending requests were rejected */
+  onWorkerError?: (error: Error) => void;
+}
+
+/**
+ * Call onFrame once per display frame until the returned function is called
+ * Falls back to timers where requestAnimationFrame is missing (some workers)
+ */
+export function startFrameLoop(onFrame: (time: number) => void): () => void {
+  let stopped = false;
+
+  if (typeof requestAnimationFrame === 'function') {
+    let frameHandle: number;
+    const tick = (time: number) => {
+      if (stopped) return;
+      onFrame(time);
+      frameHandle = requestAnimationFrame(tick);
+    };
+    frameHandle = requestAnimationFrame(tick);
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameHandle);
+    };
+  }
+
+  let timerHandle: ReturnType<typeof setTimeout>;
+  const tick = () => {
+    if (stopped) return;
+    onFrame(performance.now());
+    timerHandle = setTimeout(tick, 1000 / 60);
+  };
+  timerHandle = setTimeout(tick, 0);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timerHandle);
+  };
+}
+
+/**
+ * Whether the canvas can be handed to a worker
+ */
+export function supportsOffscreenRendering(canvas: HTMLCanvasElement): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof canvas.transferControlToOffscreen === 'function'
+  );
+}
+
+/**
+ * Runs the scene on the main thread
+ */
+class MainThreadSceneHost implements SceneHost {
+  private scene: SpreadsheetScene;
+  private stopLoop: () => void;
+
+  constructor(canvas: HTMLCanvasElement, config: Config, options: SceneOptions) {
+    this.scene = new SpreadsheetScene(canvas, config, performance.now());
+    this.scene.setOptions(options);
+    this.stopLoop = startFrameLoop((time) => this.scene.frame(time));
+  }
+
+  resize(width: number, height: number, dpr: number): void {
+    this.scene.resize(width, height, dpr);
+  }
+
+  setConfig(config: Config): void {
+    this.scene.setConfig(config);
+  }
+
+  setOptions(options: Partial<SceneOptions>): void {
+    this.scene.setOptions(options);
+  }
+
+  setImage(image: SceneImage | null): void {
+    this.scene.setImage(image);
+  }
+
+  addSample(sample: InputSample): void {
+    this.scene.addSample(sample);
+  }
+
+  endStroke(pointerId?: number): void {
+    this.scene.endStroke(pointerId);
+  }
+
+  replay(log: StrokeLog, speed: number): void {
+    this.scene.replay(log, speed);
+  }
+
+  setDensities(values: CellValue[]): void {
+    this.scene.setDensities(values);
+  }
+
+  setCells(entries: CellEntry[]): void {
+    this.scene.setCells(entries);
+  }
+
+  setSelection(cell: CellAddress | null): void {
+    this.scene.setSelection(cell);
+  }
+
+  setViewport(viewport: Viewport): void {
+    this.scene.setViewport(viewport);
+  }
+
+  snapshotDensity(): Promise<DensitySnapshot> {
+    return Promise.resolve(this.scene.snapshotDensity());
+  }
+
+  restoreDensity(config: Config, snapshot: DensitySnapshot | null): void {
+    this.scene.restoreDensity(config, snapshot);
+  }
+
+  exportSheet(format: ExportFormat, options: SheetExportOptions): Promise<Blob> {
+    return this.scene.exportSheet(format, options);
+  }
+
+  exportData(options: DataExportOptions): Promise<Blob> {
+    return this.scene.exportData(options);
+  }
+
+  startCapture(options: GifCaptureOptions): void {
+    this.scene.startCapture(options);
+  }
+
+  stopCapture(): Promise<CapturedAnimation> {
+    return Promise.resolve(this.scene.stopCapture());
+  }
+
+  dispose(): void {
+    this.stopLoop();
+  }
+}
+
+/**
+ * Runs the scene in a Web Worker, forwarding every call as a message
+ */
+class WorkerSceneHost implements SceneHost {
+  private worker: Worker;
+  private nextRequestId = 1;
+  private pendingRequests = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  // Set once the worker has failed, later requests are rejected with it
+  private error: Error | null = null;
+  private onError: ((error: Error) => void) | undefined;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    config: Config,
+    options: SceneOptions,
+    onError?: (error: Error) => void
+  ) {
+    const offscreen = canvas.transferControlToOffscreen();
+    this.onError = onError;
+    this.worker = new Worker(WORKER_URL, { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<SpreadsheetWorkerReply>) => this.handleReply(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || 'Spreadsheet worker could not be started'));
+    };
+    // A reply that cannot be read leaves its request waiting, so this is fatal too
+    this.worker.onmessageerror = () => this.fail(new Error('Spreadsheet worker sent a message that could not be read'));
+    this.post(
+      {
+        type: 'init',
+        canvas: offscreen,
+        config,
+        options,
+        width: canvas.clientWidth,
+        height: canvas.clientHeight,
+        dpr: window.devicePixelRatio || 1,
+      },
+      [offscreen]
+    );
+  }
+
+  private post(message: SpreadsheetWorkerMessage, transfer: Transferable[] = []): void {
+    if (this.error) return;
+    this.worker.postMessage(message, transfer);
+  }
+
+  // Send a request and wait for the worker's reply with the same id
+  private request<T>(message: (id: number) => SpreadsheetWorkerMessage): Promise<T> {
+    if (this.error) return Promise.reject(this.error);
+    const id = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      this.post(message(id));
+    });
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
+  // Stop the worker for good and settle everything still waiting on it
+  private fail(error: Error): void {
+    if (this.error) return;
+    this.error = error;
+    this.worker.terminate();
+    this.rejectPending(error);
+    this.onError?.(error);
+  }
+
+  private handleReply(reply: SpreadsheetWorkerReply): void {
+    const pending = this.pendingRequests.get(reply.id);
+    if (!pending) return;
+    this.pendingRequests.delete(reply.id);
+
+    switch (reply.type) {
+      case 'exported':
+        pending.resolve(reply.blob);
+        break;
+      case 'captured':
+        pending.resolve(reply.animation);
+        break;
+      case 'densitySnapshot':
+        pending.resolve(reply.snapshot);
+        break;
+      case 'failed':
+        pending.reject(new Error(reply.message));
+        break;
+    }
+  }
+
+  resize(width: number, height: number, dpr: number): void {
+    this.post({ type: 'resize', width, height, dpr });
+  }
+
+  setConfig(config: Config): void {
+    this.post({ type: 'config', config });
+  }
+
+  setOptions(options: Partial<SceneOptions>): void {
+    this.post({ type: 'options', options });
+  }
+
+  setImage(image: SceneImage | null): void {
+    // Not transferred, so the same image can be sent to a later host
+    this.post({ type: 'image', image });
+  }
+
+  addSample(sample: InputSample): void {
+    this.post({
+      type: 'sample',
+      sample: { ...sample, timestamp: sample.timestamp + performance.timeOrigin },
+    });
+  }
+
+  endStroke(pointerId?: number): void {
+    this.post({ type: 'endStroke', pointerId });
+  }
+
+  replay(log: StrokeLog, speed: number): void {
+    this.post({ type: 'replay', log, speed });
+  }
+
+  setDensities(values: CellValue[]): void {
+    this.post({ type: 'setDensities', values });
+  }
+
+  setCells(entries: CellEntry[]): void {
+    this.post({ type: 'cells', entries });
+  }
+
+  setSelection(cell: CellAddress | null): void {
+    this.post({ type: 'selection', cell });
+  }
+
+  setViewport(viewport: Viewport): void {
+    this.post({ type: 'viewport', viewport });
+  }
+
+  snapshotDensity(): Promise<DensitySnapshot> {
+    return this.request((id) => ({ type: 'snapshotDensity', id }));
+  }
+
+  restoreDensity(config: Config, snapshot: DensitySnapshot | null): void {
+    this.post({ type: 'restoreDensity', config, snapshot });
+  }
+
+  exportSheet(format: ExportFormat, options: SheetExportOptions): Promise<Blob> {
+    return this.request((id) => ({ type: 'export', id, format, options }));
+  }
+
+  exportData(options: DataExportOptions): Promise<Blob> {
+    return this.request((id) => ({ type: 'exportData', id, options }));
+  }
+
+  startCapture(options: GifCaptureOptions): void {
+    this.post({ type: 'startCapture', options });
+  }
+
+  stopCapture(): Promise<CapturedAnimation> {
+    return this.request((id) => ({ type: 'stopCapture', id }));
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    this.rejectPending(new Error('Spreadsheet was closed before the request finished'));
+  }
+}
+
+/**
+ * Create a host for the canvas, preferring worker rendering when supported
+ * A canvas handed to a worker cannot be drawn on the main thread anymore, so
+ * falling back after a worker error takes a new canvas.
+ */
+export function createSceneHost(
+  canvas: HTMLCanvasElement,
+  config: Config,
+  options: SceneOptions,
+  { allowWorker = true, onWorkerError }: SceneHostOptions = {}
+): SceneHost {
+  if (allowWorker && supportsOffscreenRendering(canvas)) {
+    return new WorkerSceneHost(canvas, config, options, onWorkerError);
+  }
+  return new MainThreadSceneHost(canvas, config, options);
+}
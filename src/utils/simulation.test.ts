@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { createDefaultConfig } from './density';
+import { DensitySimulation } from './simulation';
+import type { Config } from '../types/spreadsheet';
+
+const GRID = { columns: 24, rows: 24 };
+
+// Density held by the simulated cells, each leaf weighted by its share of its base cell
+function totalDensity(simulation: DensitySimulation): number {
+  const { baseCellWidth, baseCellHeight } = createDefaultConfig();
+  let total = 0;
+  for (let col = 0; col < GRID.columns; col++) {
+    for (let row = 0; row < GRID.rows; row++) {
+      for (const leaf of simulation.getLeafCells(col, row)) {
+        total += ((leaf.density ?? 0) * leaf.width * leaf.height) / (baseCellWidth * baseCellHeight);
+      }
+    }
+  }
+  return total;
+}
+
+// A dense, subdivided block far enough from the edges that nothing drifts off the grid
+function createSimulation(overrides: Partial<Config>): DensitySimulation {
+  const simulation = new DensitySimulation({ ...createDefaultConfig(), persistent: true, ...overrides }, GRID);
+  simulation.setDensities([
+    { col: 5, row: 5, value: 0.9 },
+    { col: 6, row: 5, value: 0.6 },
+    { col: 5, row: 6, value: 0.3 },
+  ]);
+  return simulation;
+}
+
+describe('DensitySimulation.step', () => {
+  test('diffusion spreads density without creating any', () => {
+    const simulation = createSimulation({ diffusionRate: 0.5, diffusionNeighbors: 8 });
+    const before = totalDensity(simulation);
+    expect(simulation.getSubdivisionLevel(5, 5)).toBeGreaterThan(0);
+
+    for (let i = 0; i < 60; i++) simulation.step(1 / 30);
+
+    expect(simulation.getDensity(4, 4)).toBeGreaterThan(0);
+    expect(simulation.getDensity(5, 5)).toBeLessThan(0.9);
+    expect(totalDensity(simulation)).toBeCloseTo(before, 3);
+  });
+
+  test('wind moves density without creating any', () => {
+    const simulation = createSimulation({ windStrength: 1.5, windDirection: 30 });
+    const before = totalDensity(simulation);
+
+    for (let i = 0; i < 60; i++) simulation.step(1 / 30);
+
+    expect(simulation.getDensity(7, 6)).toBeGreaterThan(0);
+    expect(totalDensity(simulation)).toBeCloseTo(before, 3);
+  });
+});
@@ -0,0 +1,816 @@
+/**
+ * Headless density simulation
+ *
+ * Owns the per-cell density field and the cursor input history, and advances
+ * them with an injected clock. Has no dependency on React, the DOM or
+ * performance.now(), so it can be driven from components, workers or tests.
+ *
+ * Unsubdivided base cells live in the flat density field. Once a base cell
+ * subdivides, its density moves into a tree of subcells (see densityTree.ts)
+ * and the field keeps the densest leaf as the cell's summary.
+ *
+ * Only a window of the sheet (the visible cells) is simulated. Cells outside
+ * it are paused in a sparse store (see sparseDensity.ts). Cell positions and
+ * addresses are in sheet coordinates throughout, wherever the window is.
+ */
+
+import type {
+  Point,
+  BrushPoint,
+  BrushStroke,
+  Config,
+  CellBounds,
+  SubdivisionDirection,
+  SubdividedCell,
+  CellAddress,
+  CellDensityState,
+  CellValue,
+} from '../types/spreadsheet';
+import {
+  calculateDistance,
+  getSubdivisionDirection,
+  SubdivisionGeometryCache,
+  type SubcellGeometry,
+  type SubdivisionLine,
+} from './subdivision';
+import {
+  updateCellDensity,
+  densityToSubdivisionLevel,
+  calculateBrushDistance,
+  calculateBrushReach,
+  calculatePressureMultiplier,
+} from './density';
+import {
+  interpolatePoints,
+  filterRecentPoints,
+  type TimestampedPoint,
+} from './interpolation';
+import { DensityField } from './densityField';
+import {
+  createLeaf,
+  refineNode,
+  visitLeaves,
+  visitLeafNodes,
+  collectLeafCells,
+  collectSplitLines,
+  treeDepth,
+  meanDensity,
+  shiftMeanDensity,
+  type DensityNode,
+  type SplitRule,
+} from './densityTree';
+import type { ImageDetail } from './imageDetail';
+import { diffuseDensity, isDiffusionEnabled } from './diffusion';
+import { SparseDensityStore, type StoredCell } from './sparseDensity';
+
+/**
+ * A single pointer sample in sheet coordinates
+ * Timestamp is in milliseconds on the same clock the simulation is stepped with
+ * Strength is signed, negative samples erase; pressure and tilt are optional pen data
+ * Samples with different pointer ids paint as independent strokes
+ */
+export interface InputSample extends BrushPoint {
+  timestamp: number;
+  pointerId?: number; // Defaults to 0
+}
+
+/**
+ * Latest position of one active pointer
+ */
+export interface CursorState extends BrushPoint {
+  pointerId: number;
+  velocity: number; // Smoothed speed in pixels per second
+}
+
+/**
+ * Input history of one pointer
+ */
+interface PointerTrack {
+  points: TimestampedPoint[];
+  lastSample: InputSample;
+  velocity: number;
+}
+
+/**
+ * Number of base cells in the simulated grid
+ */
+export interface GridSize {
+  columns: number;
+  rows: number;
+}
+
+/**
+ * Block of base cells that is simulated, starting at cell (col, row)
+ */
+export interface GridWindow extends GridSize {
+  col: number;
+  row: number;
+}
+
+/**
+ * Density state of one base cell in a snapshot
+ */
+export interface SnapshotCell extends StoredCell, CellAddress {}
+
+/**
+ * Density state of a simulation as plain data, so it can be saved as JSON
+ * Timestamps are on the simulation clock, which read `time` when it was taken
+ */
+export interface DensitySnapshot {
+  time: number;
+  cells: SnapshotCell[]; // Cells holding density, every other cell is empty
+}
+
+// Interpolated points older than this no longer paint (milliseconds)
+const MAX_POINT_AGE = 100;
+
+// Velocity starts decaying when no sample arrived for this long (milliseconds)
+const VELOCITY_IDLE_TIME = 50;
+
+// Largest time step integrated at once, prevents jumps after a stalled frame (seconds)
+const MAX_STEP = 0.1;
+
+export class DensitySimulation {
+  private config: Config;
+  private currentTime: number;
+  private field: DensityField;
+  // Sheet position of the field's first cell, and the field size
+  private cellWindow: GridWindow;
+  private stored = new SparseDensityStore();
+  private tracks = new Map<number, PointerTrack>();
+  private diffusionBuffer = new Float32Array(0);
+  // Subcell trees of subdivided base cells, keyed by field buffer index
+  private trees = new Map<number, DensityNode>();
+  // Subcell bounds and split lines, shared by every base cell
+  private geometry = new SubdivisionGeometryCache();
+  // Inserted image analysis for adaptive subdivision, with its bounds in sheet coordinates
+  private imageDetail: ImageDetail | null = null;
+  private imageBounds: CellBounds | null = null;
+
+  /**
+   * @param config - Density configuration
+   * @param grid - Number of base columns and rows simulated, from cell A1
+   * @param startTime - Initial clock value (milliseconds)
+   */
+  constructor(config: Config, grid: GridSize, startTime: number = 0) {
+    this.config = config;
+    this.currentTime = startTime;
+    this.field = new DensityField(grid.columns, grid.rows, startTime);
+    this.cellWindow = { col: 0, row: 0, columns: grid.columns, rows: grid.rows };
+  }
+
+  /**
+   * Current simulation clock (milliseconds)
+   */
+  get time(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Last received position, strength and velocity of every active pointer
+   */
+  get cursors(): CursorState[] {
+    return Array.from(this.tracks, ([pointerId, track]) => ({
+      x: track.lastSample.x,
+      y: track.lastSample.y,
+      strength: track.lastSample.strength,
+      pointerId,
+      velocity: track.velocity,
+    }));
+  }
+
+  /**
+   * Block of the sheet being simulated
+   */
+  get window(): GridWindow {
+    return { ...this.cellWindow };
+  }
+
+  /**
+   * Underlying density buffers of the window (read-only view for renderers)
+   */
+  get densityField(): DensityField {
+    return this.field;
+  }
+
+  getConfig(): Config {
+    return this.config;
+  }
+
+  setConfig(config: Config): void {
+    this.config = config;
+
+    // A lower max level collapses subcells that are now too deep
+    this.refineTrees();
+    this.stored.prune(config.columns, config.rows);
+  }
+
+  /**
+   * Image that adaptive subdivision measures detail in
+   *
+   * @param bounds - Where the image is drawn, in sheet coordinates
+   */
+  setImageDetail(detail: ImageDetail | null, bounds: CellBounds | null): void {
+    this.imageDetail = detail;
+    this.imageBounds = bounds;
+  }
+
+  /**
+   * Move or resize the simulated window
+   * Cells leaving it are stored, cells entering it resume from the store
+   */
+  setWindow(window: GridWindow): void {
+    const previous = this.cellWindow;
+    if (
+      window.col === previous.col &&
+      window.row === previous.row &&
+      window.columns === previous.columns &&
+      window.rows === previous.rows
+    ) {
+      return;
+    }
+
+    const now = this.currentTime;
+    const next = new DensityField(window.columns, window.rows, now);
+    const trees = new Map<number, DensityNode>();
+    const inWindow = (area: GridWindow, col: number, row: number) =>
+      col >= area.col && row >= area.row && col < area.col + area.columns && row < area.row + area.rows;
+
+    for (let col = previous.col; col < previous.col + previous.columns; col++) {
+      for (let row = previous.row; row < previous.row + previous.rows; row++) {
+        const i = this.field.index(col - previous.col, row - previous.row);
+        const tree = this.trees.get(i);
+        const density = this.field.density[i];
+        const lastPaintedTime = this.field.lastPaintedTime[i];
+
+        if (inWindow(window, col, row)) {
+          const j = next.index(col - window.col, row - window.row);
+          next.density[j] = density;
+          next.lastPaintedTime[j] = lastPaintedTime;
+          if (tree) trees.set(j, tree);
+        } else {
+          this.stored.set(col, row, { density, lastPaintedTime, tree: tree ?? null }, now);
+        }
+      }
+    }
+
+    if (this.stored.size > 0) {
+      for (let col = window.col; col < window.col + window.columns; col++) {
+        for (let row = window.row; row < window.row + window.rows; row++) {
+          if (inWindow(previous, col, row)) continue;
+          const cell = this.stored.take(col, row, now);
+          if (!cell) continue;
+          const j = next.index(col - window.col, row - window.row);
+          next.density[j] = cell.density;
+          next.lastPaintedTime[j] = cell.lastPaintedTime;
+          if (cell.tree) trees.set(j, cell.tree);
+        }
+      }
+    }
+
+    this.field = next;
+    this.trees = trees;
+    this.cellWindow = { ...window };
+  }
+
+  /**
+   * Field buffer index of a cell, -1 if it is outside the window
+   */
+  private getIndex(col: number, row: number): number {
+    const localCol = col - this.cellWindow.col;
+    const localRow = row - this.cellWindow.row;
+    return this.field.contains(localCol, localRow) ? this.field.index(localCol, localRow) : -1;
+  }
+
+  /**
+   * Subcells of a base cell, in the window or in the store
+   */
+  private getTree(col: number, row: number): DensityNode | undefined {
+    const i = this.getIndex(col, row);
+    return i >= 0 ? this.trees.get(i) : this.stored.getTree(col, row);
+  }
+
+  /**
+   * Move the clock by offset milliseconds without simulating
+   * All stored timestamps move with it, so hold and decay timing is preserved
+   * (cells in the sparse store are paused, they catch up when they return)
+   */
+  shiftClock(offset: number): void {
+    this.currentTime += offset;
+
+    const { lastPaintedTime } = this.field;
+    for (let i = 0; i < lastPaintedTime.length; i++) {
+      lastPaintedTime[i] += offset;
+    }
+    for (const tree of this.trees.values()) {
+      visitLeafNodes(tree, (leaf) => {
+        leaf.lastPaintedTime += offset;
+      });
+    }
+
+    for (const track of this.tracks.values()) {
+      track.points = track.points.map((p) => ({ ...p, timestamp: p.timestamp + offset }));
+      track.lastSample = { ...track.lastSample, timestamp: track.lastSample.timestamp + offset };
+    }
+  }
+
+  /**
+   * Overwrite the density of base cells, e.g. with imported data
+   * Values are densities between 0 and 1. Cells count as just painted and
+   * subdivide uniformly again unless they already held the value; cells
+   * outside the sheet are ignored.
+   */
+  setDensities(values: CellValue[]): void {
+    const { density, lastPaintedTime } = this.field;
+    const now = this.currentTime;
+
+    for (const { col, row, value } of values) {
+      const clamped = Math.max(0, Math.min(1, value));
+      const i = this.getIndex(col, row);
+
+      if (i < 0) {
+        // Off-screen cells go straight to the store
+        if (col >= 0 && row >= 0 && col < this.config.columns && row < this.config.rows) {
+          this.stored.set(col, row, { density: clamped, lastPaintedTime: now, tree: null }, now);
+        }
+        continue;
+      }
+
+      // A cell already at the value keeps its subcells (compared at buffer precision)
+      if (density[i] !== Math.fround(clamped)) {
+        this.trees.delete(i);
+      }
+      density[i] = clamped;
+      lastPaintedTime[i] = now;
+    }
+    this.refineTrees();
+  }
+
+  /**
+   * Copy of the density state, without the pointer input history
+   */
+  snapshot(): DensitySnapshot {
+    const cells: SnapshotCell[] = [];
+    const { rows, density, lastPaintedTime } = this.field;
+
+    for (let i = 0; i < density.length; i++) {
+      const tree = this.trees.get(i);
+      if (density[i] <= 0 && !tree) continue;
+      cells.push({
+        col: this.cellWindow.col + Math.floor(i / rows),
+        row: this.cellWindow.row + (i % rows),
+        density: density[i],
+        lastPaintedTime: lastPaintedTime[i],
+        tree: tree ? structuredClone(tree) : null,
+      });
+    }
+    this.stored.forEach(this.currentTime, (col, row, cell) => cells.push({ col, row, ...cell }));
+
+    return { time: this.currentTime, cells };
+  }
+
+  /**
+   * Simulation continuing from a snapshot, its clock at startTime
+   * Cells keep the hold and decay time they had left when it was taken
+   */
+  static fromSnapshot(config: Config, snapshot: DensitySnapshot, startTime: number): DensitySimulation {
+    const simulation = new DensitySimulation(config, { columns: 0, rows: 0 }, startTime);
+
+    // Every cell starts out stored, paused since the snapshot was taken;
+    // setWindow brings in the visible ones (refined to the current max level on the next step)
+    for (const { col, row, density, lastPaintedTime, tree } of snapshot.cells) {
+      const cell = { density, lastPaintedTime, tree: tree && structuredClone(tree) };
+      simulation.stored.set(col, row, cell, snapshot.time);
+    }
+    simulation.stored.prune(config.columns, config.rows);
+    return simulation;
+  }
+
+  /**
+   * Feed a cursor sample
+   * Updates the pointer's smoothed velocity and interpolates a path from its previous sample
+   */
+  addSample(sample: InputSample): void {
+    const pointerId = sample.pointerId ?? 0;
+    const track = this.tracks.get(pointerId);
+
+    if (track) {
+      const previous = track.lastSample;
+      const distance = calculateDistance(sample, previous);
+      const deltaTime = (sample.timestamp - previous.timestamp) / 1000;
+
+      // Velocity in pixels per second
+      const velocity = deltaTime > 0 ? distance / deltaTime : 0;
+
+      // Smooth velocity with exponential moving average
+      track.velocity = track.velocity * 0.7 + velocity * 0.3;
+
+      // Calculate step size for interpolation based on influence radius and interpolation density
+      const stepSize = this.config.influenceRadius / (4 * this.config.interpolationDensity);
+
+      // The path takes the strength and pen data of the sample it leads to
+      const interpolated = interpolatePoints(previous, sample, stepSize);
+      track.points.push(
+        ...interpolated.map((p) => ({ ...sample, x: p.x, y: p.y }))
+      );
+
+      // Filter out old points to prevent memory buildup
+      track.points = filterRecentPoints(track.points, MAX_POINT_AGE, sample.timestamp);
+      track.lastSample = { ...sample };
+    } else {
+      // First sample of a stroke - just add current position
+      this.tracks.set(pointerId, {
+        points: [{ ...sample }],
+        lastSample: { ...sample },
+        velocity: 0,
+      });
+    }
+  }
+
+  /**
+   * End a pointer's stroke (pointer left the sheet or lifted)
+   * Ends every stroke when no pointer id is given
+   */
+  endStroke(pointerId?: number): void {
+    if (pointerId === undefined) {
+      this.tracks.clear();
+    } else {
+      this.tracks.delete(pointerId);
+    }
+  }
+
+  /**
+   * Advance the clock and update every cell's density
+   *
+   * @param dt - Elapsed time in seconds. The clock advances by the full amount,
+   * density integration is capped at MAX_STEP.
+   */
+  step(dt: number): void {
+    this.currentTime += dt * 1000;
+    const now = this.currentTime;
+    const cappedDeltaTime = Math.min(Math.max(dt, 0), MAX_STEP);
+
+    const strokes: BrushStroke[] = [];
+    for (const track of this.tracks.values()) {
+      // Very rapidly decay velocity when the cursor is still
+      if (now - track.lastSample.timestamp > VELOCITY_IDLE_TIME) {
+        track.velocity = Math.max(0, track.velocity * 0.7);
+      }
+
+      const points = filterRecentPoints(track.points, MAX_POINT_AGE, now);
+      if (points.length > 0) {
+        strokes.push({ points, velocity: track.velocity });
+      }
+    }
+
+    // Cells no stroke point can reach only decay
+    const reaches = strokes.map((stroke) =>
+      stroke.points.map((point) => calculateBrushReach(point, this.config))
+    );
+    const noStrokes: BrushStroke[] = [];
+
+    const { columns, rows, density, lastPaintedTime } = this.field;
+    const { baseCellWidth, baseCellHeight } = this.config;
+    const { col: firstCol, row: firstRow } = this.cellWindow;
+
+    // Reused for every cell to avoid per-frame allocations
+    const baseCell: CellBounds = { x: 0, y: 0, width: baseCellWidth, height: baseCellHeight };
+    const cellCenter: Point = { x: 0, y: 0 };
+
+    // Iterate in buffer order (column-major)
+    for (let col = 0; col < columns; col++) {
+      baseCell.x = (firstCol + col) * baseCellWidth;
+      cellCenter.x = baseCell.x + baseCellWidth / 2;
+
+      for (let row = 0; row < rows; row++) {
+        const i = col * rows + row;
+        baseCell.y = (firstRow + row) * baseCellHeight;
+        cellCenter.y = baseCell.y + baseCellHeight / 2;
+
+        const cellStrokes = this.isWithinReach(strokes, reaches, baseCell) ? strokes : noStrokes;
+
+        // Subdivided cells update each leaf on its own
+        const tree = this.trees.get(i);
+        if (tree) {
+          this.stepTree(tree, baseCell, cellStrokes, cappedDeltaTime, now);
+          continue;
+        }
+
+        const isPaintingThisCell = this.isPainting(cellStrokes, cellCenter);
+
+        density[i] = updateCellDensity(
+          density[i],
+          baseCell,
+          cellStrokes,
+          cappedDeltaTime,
+          this.config,
+          lastPaintedTime[i],
+          now
+        );
+
+        // Reset timestamp ONLY if cursor is actually painting this cell
+        if (isPaintingThisCell) {
+          lastPaintedTime[i] = now;
+        }
+      }
+    }
+
+    // Optional bleed into neighboring cells
+    // Subdivided cells take part with the mean of their leaves, not their summary,
+    // and hand the change back to the leaves so no density is created or lost
+    if (isDiffusionEnabled(this.config)) {
+      if (this.diffusionBuffer.length < this.field.size) {
+        this.diffusionBuffer = new Float32Array(this.field.size);
+      }
+
+      const means: Array<{ i: number; tree: DensityNode; mean: number }> = [];
+      for (const [i, tree] of this.trees) {
+        density[i] = meanDensity(tree);
+        means.push({ i, tree, mean: density[i] });
+      }
+
+      diffuseDensity(this.field, this.diffusionBuffer, cappedDeltaTime, this.config);
+
+      for (const { i, tree, mean } of means) {
+        shiftMeanDensity(tree, mean, density[i]);
+      }
+    }
+
+    this.refineTrees();
+  }
+
+  /**
+   * Check if any stroke point can reach into a cell
+   */
+  private isWithinReach(strokes: BrushStroke[], reaches: number[][], cell: CellBounds): boolean {
+    for (let s = 0; s < strokes.length; s++) {
+      const { points } = strokes[s];
+      for (let p = 0; p < points.length; p++) {
+        // Distance from the point to the nearest point of the cell
+        const dx = Math.max(cell.x - points[p].x, 0, points[p].x - (cell.x + cell.width));
+        const dy = Math.max(cell.y - points[p].y, 0, points[p].y - (cell.y + cell.height));
+        const reach = reaches[s][p];
+        if (dx * dx + dy * dy < reach * reach) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check if any stroke is actually painting at a point (within influence radius)
+   * Erasing points and a hovering pen don't count, so those cells get no fresh hold period
+   */
+  private isPainting(strokes: BrushStroke[], center: Point): boolean {
+    for (const stroke of strokes) {
+      for (const point of stroke.points) {
+        if (
+          (point.strength ?? 1) > 0 &&
+          calculatePressureMultiplier(point.pressure, this.config) > 0 &&
+          calculateBrushDistance(point, center, this.config) < this.config.influenceRadius
+        ) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Update the density of every leaf of a subdivided base cell
+   */
+  private stepTree(
+    tree: DensityNode,
+    baseCell: CellBounds,
+    strokes: BrushStroke[],
+    deltaTime: number,
+    now: number
+  ): void {
+    const center: Point = { x: 0, y: 0 };
+
+    visitLeaves(tree, this.getBaseGeometry(), baseCell.x, baseCell.y, (leaf, bounds) => {
+      center.x = bounds.x + bounds.width / 2;
+      center.y = bounds.y + bounds.height / 2;
+      const isPaintingThisLeaf = this.isPainting(strokes, center);
+
+      leaf.density = updateCellDensity(
+        leaf.density,
+        bounds,
+        strokes,
+        deltaTime,
+        this.config,
+        leaf.lastPaintedTime,
+        now
+      );
+
+      if (isPaintingThisLeaf) {
+        leaf.lastPaintedTime = now;
+      }
+    });
+  }
+
+  /**
+   * Split and merge subcells to match their density, moving base cells
+   * between the flat field and subcell trees as they (un)subdivide
+   */
+  private refineTrees(): void {
+    const { rows, density, lastPaintedTime } = this.field;
+    const { baseCellWidth, baseCellHeight, maxSubdivisionLevel: maxLevel } = this.config;
+    const splitRule = this.getSplitRule();
+
+    for (let i = 0; i < density.length; i++) {
+      let tree = this.trees.get(i);
+
+      if (!tree) {
+        if (densityToSubdivisionLevel(density[i], maxLevel) === 0) continue;
+        tree = createLeaf(density[i], lastPaintedTime[i]);
+        this.trees.set(i, tree);
+      }
+
+      const bounds: CellBounds = {
+        x: (this.cellWindow.col + Math.floor(i / rows)) * baseCellWidth,
+        y: (this.cellWindow.row + (i % rows)) * baseCellHeight,
+        width: baseCellWidth,
+        height: baseCellHeight,
+      };
+      refineNode(tree, bounds, 0, maxLevel, splitRule);
+
+      if (!tree.children) {
+        // Merged back into a single cell
+        density[i] = tree.density;
+        lastPaintedTime[i] = tree.lastPaintedTime;
+        this.trees.delete(i);
+        continue;
+      }
+
+      // Summarize the leaves for whole-cell queries
+      let maxDensity = 0;
+      let latestPaint = -Infinity;
+      visitLeafNodes(tree, (leaf) => {
+        maxDensity = Math.max(maxDensity, leaf.density);
+        latestPaint = Math.max(latestPaint, leaf.lastPaintedTime);
+      });
+      density[i] = maxDensity;
+      lastPaintedTime[i] = latestPaint;
+    }
+  }
+
+  /**
+   * How new splits are made
+   *
+   * Uniform mode keeps cells close to square. Adaptive mode only splits cells
+   * whose image detail reaches detailThreshold, across the axis with more
+   * gradient energy (weighted by the cell's extent along it), so the level
+   * budget goes to edges instead of flat areas. Without an image it falls
+   * back to uniform.
+   */
+  private getSplitRule(): SplitRule {
+    const uniform: SplitRule = (bounds) => getSubdivisionDirection(bounds.width, bounds.height);
+
+    const { imageDetail, imageBounds } = this;
+    if (this.config.subdivisionMode !== 'adaptive' || !imageDetail || !imageBounds) {
+      return uniform;
+    }
+
+    const threshold = this.config.detailThreshold;
+    return (bounds): SubdivisionDirection | null => {
+      const detail = imageDetail.measureBounds(bounds, imageBounds);
+      if (!detail || detail.strength < threshold) {
+        return null;
+      }
+
+      // Gradient along x means vertical edges, which a vertical split line resolves
+      const horizontalScore = detail.horizontalEnergy * bounds.width;
+      const verticalScore = detail.verticalEnergy * bounds.height;
+      if (horizontalScore === verticalScore) {
+        return getSubdivisionDirection(bounds.width, bounds.height);
+      }
+      return horizontalScore > verticalScore ? 'vertical' : 'horizontal';
+    };
+  }
+
+  /**
+   * Density of a base cell (0.0 to 1.0), the densest subcell if it is subdivided
+   */
+  getDensity(col: number, row: number): number {
+    const i = this.getIndex(col, row);
+    return i >= 0 ? this.field.density[i] : this.stored.getDensity(col, row);
+  }
+
+  /**
+   * Full density state of a base cell, undefined if it is outside the window
+   */
+  getCellState(col: number, row: number): CellDensityState | undefined {
+    return this.field.getState(col - this.cellWindow.col, row - this.cellWindow.row);
+  }
+
+  /**
+   * Deepest subdivision level within a base cell
+   */
+  getSubdivisionLevel(col: number, row: number): number {
+    const tree = this.getTree(col, row);
+    return tree ? treeDepth(tree) : 0;
+  }
+
+  /**
+   * Final cells of a base cell, each with its own level and density
+   */
+  getLeafCells(col: number, row: number): SubdividedCell[] {
+    const tree = this.getTree(col, row);
+    if (!tree) return [this.getBaseCell(col, row)];
+    return collectLeafCells(tree, this.getBaseGeometry(), col, row);
+  }
+
+  /**
+   * Split lines inside a base cell, empty if it is not subdivided
+   */
+  getSplitLines(col: number, row: number): SubdivisionLine[] {
+    const tree = this.getTree(col, row);
+    if (!tree) return [];
+    const { baseCellWidth, baseCellHeight } = this.config;
+    return collectSplitLines(tree, this.getBaseGeometry(), col * baseCellWidth, row * baseCellHeight);
+  }
+
+  /**
+   * Cached geometry of a base cell at the current size
+   */
+  private getBaseGeometry(): SubcellGeometry {
+    const { baseCellWidth, baseCellHeight, maxSubdivisionLevel } = this.config;
+    return this.geometry.getRoot(baseCellWidth, baseCellHeight, maxSubdivisionLevel);
+  }
+
+  /**
+   * Bounds of a base cell in sheet coordinates (origin at the top-left cell)
+   */
+  getBaseCell(col: number, row: number): SubdividedCell {
+    return {
+      x: col * this.config.baseCellWidth,
+      y: row * this.config.baseCellHeight,
+      width: this.config.baseCellWidth,
+      height: this.config.baseCellHeight,
+      level: 0,
+      baseX: col,
+      baseY: row,
+      density: this.getDensity(col, row),
+    };
+  }
+
+  /**
+   * All base cells of the window in row-major order
+   */
+  getBaseCells(): SubdividedCell[] {
+    const { col: firstCol, row: firstRow, columns, rows } = this.cellWindow;
+    const cells: SubdividedCell[] = [];
+    for (let row = firstRow; row < firstRow + rows; row++) {
+      for (let col = firstCol; col < firstCol + columns; col++) {
+        cells.push(this.getBaseCell(col, row));
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Final cells of every base cell in the window, row-major by base cell
+   */
+  getSubdividedCells(): SubdividedCell[] {
+    const { col: firstCol, row: firstRow, columns, rows } = this.cellWindow;
+    const cells: SubdividedCell[] = [];
+    for (let row = firstRow; row < firstRow + rows; row++) {
+      for (let col = firstCol; col < firstCol + columns; col++) {
+        cells.push(...this.getLeafCells(col, row));
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Split lines of every subdivided base cell in the window
+   */
+  getSubdivisionLines(): SubdivisionLine[] {
+    const lines: SubdivisionLine[] = [];
+    for (const i of this.trees.keys()) {
+      const col = this.cellWindow.col + Math.floor(i / this.field.rows);
+      const row = this.cellWindow.row + (i % this.field.rows);
+      lines.push(...this.getSplitLines(col, row));
+    }
+    return lines;
+  }
+
+  /**
+   * Every base cell holding density, in the window or stored
+   */
+  getPaintedCells(): CellAddress[] {
+    const cells: CellAddress[] = [];
+    const { rows, density } = this.field;
+    for (let i = 0; i < density.length; i++) {
+      if (density[i] > 0) {
+        cells.push({ col: this.cellWindow.col + Math.floor(i / rows), row: this.cellWindow.row + (i % rows) });
+      }
+    }
+    this.stored.forEach(this.currentTime, (col, row, cell) => {
+      if (cell.density > 0) cells.push({ col, row });
+    });
+    return cells;
+  }
+}
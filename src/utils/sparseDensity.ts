@@ -0,0 +1,108 @@
+/**
+ * Sparse storage for density outside the simulated window
+ *
+ * Only the visible base cells are simulated. Cells scrolled out of view are
+ * kept here if they hold any density, and are paused while stored: when one
+ * returns to the window its timestamps move forward by the time it spent
+ * here, so it resumes its hold and fade where it left off.
+ */
+
+import { MAX_SHEET_ROWS } from './density';
+import { visitLeafNodes, type DensityNode } from './densityTree';
+
+/**
+ * Density state of a base cell, with its subcells if it is subdivided
+ */
+export interface StoredCell {
+  density: number;
+  lastPaintedTime: number;
+  tree: DensityNode | null;
+}
+
+interface PausedCell extends StoredCell {
+  storedAt: number; // Clock value when the cell was stored
+}
+
+const cellKey = (col: number, row: number): number => col * MAX_SHEET_ROWS + row;
+
+/**
+ * Move every timestamp of a cell by offset milliseconds
+ */
+function shiftCell(cell: StoredCell, offset: number): void {
+  cell.lastPaintedTime += offset;
+  if (cell.tree) {
+    visitLeafNodes(cell.tree, (leaf) => {
+      leaf.lastPaintedTime += offset;
+    });
+  }
+}
+
+export class SparseDensityStore {
+  private cells = new Map<number, PausedCell>();
+
+  get size(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Stored density of a cell, 0 if it is not stored
+   */
+  getDensity(col: number, row: number): number {
+    return this.cells.get(cellKey(col, row))?.density ?? 0;
+  }
+
+  /**
+   * Subcells of a stored cell, undefined if it is not stored or not subdivided
+   */
+  getTree(col: number, row: number): DensityNode | undefined {
+    return this.cells.get(cellKey(col, row))?.tree ?? undefined;
+  }
+
+  /**
+   * Store a cell as of time now, or drop it if it is empty
+   */
+  set(col: number, row: number, cell: StoredCell, now: number): void {
+    if (cell.density > 0 || cell.tree) {
+      this.cells.set(cellKey(col, row), { ...cell, storedAt: now });
+    } else {
+      this.cells.delete(cellKey(col, row));
+    }
+  }
+
+  /**
+   * Remove a cell from the store, its timestamps moved to resume at time now
+   */
+  take(col: number, row: number, now: number): StoredCell | undefined {
+    const key = cellKey(col, row);
+    const paused = this.cells.get(key);
+    if (!paused) return undefined;
+    this.cells.delete(key);
+
+    const { storedAt, ...cell } = paused;
+    shiftCell(cell, now - storedAt);
+    return cell;
+  }
+
+  /**
+   * Copy of every stored cell, with timestamps as if it resumed at time now
+   */
+  forEach(now: number, visit: (col: number, row: number, cell: StoredCell) => void): void {
+    for (const [key, paused] of this.cells) {
+      const { storedAt, ...cell } = paused;
+      const copy = { ...cell, tree: cell.tree && structuredClone(cell.tree) };
+      shiftCell(copy, now - storedAt);
+      visit(Math.floor(key / MAX_SHEET_ROWS), key % MAX_SHEET_ROWS, copy);
+    }
+  }
+
+  /**
+   * Drop cells outside a sheet of the given size
+   */
+  prune(columns: number, rows: number): void {
+    for (const key of this.cells.keys()) {
+      if (Math.floor(key / MAX_SHEET_ROWS) >= columns || key % MAX_SHEET_ROWS >= rows) {
+        this.cells.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { HEADER_HEIGHT, HEADER_WIDTH } from './canvas';
+import { parseStrokeLog, replayStrokeLog, type StrokeLog } from './strokeLog';
+import type { DensitySimulation } from './simulation';
+import type { CellAddress } from '../types/spreadsheet';
+
+interface ExpectedCell {
+  col: number;
+  row: number;
+  density: number;
+  level: number;
+}
+
+const readFixture = (name: string): string => readFileSync(join(import.meta.dir, 'fixtures', name), 'utf8');
+
+// Painted cells with their density and subdivision level, in field order
+function summarize(simulation: DensitySimulation): ExpectedCell[] {
+  return simulation.getPaintedCells().map(({ col, row }) => ({
+    col,
+    row,
+    density: simulation.getDensity(col, row),
+    level: simulation.getSubdivisionLevel(col, row),
+  }));
+}
+
+// Sample positions of a log in sheet coordinates
+function getSamplePoints(log: StrokeLog): { x: number; y: number }[] {
+  return log.events.flatMap((event) =>
+    event.type === 'sample' ? [{ x: event.x - HEADER_WIDTH, y: event.y - HEADER_HEIGHT }] : []
+  );
+}
+
+// Every cell of the simulated window
+function getWindowCells(simulation: DensitySimulation): CellAddress[] {
+  const { col, row, columns, rows } = simulation.window;
+  return Array.from({ length: columns * rows }, (_, i) => ({
+    col: col + (i % columns),
+    row: row + Math.floor(i / columns),
+  }));
+}
+
+describe('replayStrokeLog', () => {
+  const log = parseStrokeLog(readFixture('two-strokes.strokes.json'));
+  const expected: { time: number; cells: ExpectedCell[] } = JSON.parse(readFixture('two-strokes.expected.json'));
+
+  test('reproduces the recorded density snapshot', () => {
+    const simulation = replayStrokeLog(log);
+    const cells = summarize(simulation);
+
+    expect(simulation.time).toBeCloseTo(expected.time, 6);
+    expect(cells.map(({ col, row, level }) => ({ col, row, level }))).toEqual(
+      expected.cells.map(({ col, row, level }) => ({ col, row, level }))
+    );
+    cells.forEach((cell, i) => expect(cell.density).toBeCloseTo(expected.cells[i].density, 5));
+  });
+
+  test('replays a log to the same densities every time', () => {
+    expect(replayStrokeLog(log).snapshot()).toEqual(replayStrokeLog(log).snapshot());
+  });
+
+  test('paints every cell a stroke passed over', () => {
+    const simulation = replayStrokeLog(log);
+    const { baseCellWidth, baseCellHeight } = log.config;
+
+    for (const { x, y } of getSamplePoints(log)) {
+      const density = simulation.getDensity(Math.floor(x / baseCellWidth), Math.floor(y / baseCellHeight));
+      expect(density).toBeGreaterThan(0);
+    }
+  });
+
+  test('leaves cells out of the brush reach empty', () => {
+    // The first stroke alone, before diffusion is turned on
+    const firstStroke: StrokeLog = { ...log, events: log.events.filter((event) => event.t < 700) };
+    const simulation = replayStrokeLog(firstStroke);
+    const points = getSamplePoints(firstStroke);
+    const { baseCellWidth, baseCellHeight, influenceRadius } = log.config;
+
+    // Interpolated points lie between samples, a few pixels from the nearest one
+    const reach = influenceRadius + 10;
+    const outOfReach = getWindowCells(simulation).filter(({ col, row }) => {
+      const x = col * baseCellWidth;
+      const y = row * baseCellHeight;
+      return points.every((point) => {
+        const dx = Math.max(x - point.x, 0, point.x - (x + baseCellWidth));
+        const dy = Math.max(y - point.y, 0, point.y - (y + baseCellHeight));
+        return Math.hypot(dx, dy) > reach;
+      });
+    });
+
+    expect(outOfReach.length).toBeGreaterThan(0);
+    for (const { col, row } of outOfReach) {
+      expect(simulation.getDensity(col, row)).toBe(0);
+    }
+    expect(simulation.getDensity(100, 1000)).toBe(0);
+  });
+
+  test('yields the same frames on every run', () => {
+    const first: number[] = [];
+    const second: number[] = [];
+    replayStrokeLog(log, (simulation) => first.push(simulation.getDensity(3, 4)));
+    replayStrokeLog(log, (simulation) => second.push(simulation.getDensity(3, 4)));
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+});
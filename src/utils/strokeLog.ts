@@ -0,0 +1,284 @@
+/**
+ * Stroke recording and deterministic replay
+ *
+ * A stroke log holds the raw pointer samples of a painting session and the
+ * config changes made during it. Replay steps a fresh simulation at a fixed
+ * frame rate in log time, so the density field after each frame depends only
+ * on the log - never on the display frame rate or the playback speed.
+ */
+
+import type { BrushPoint, CellBounds, Config } from '../types/spreadsheet';
+import { HEADER_WIDTH, HEADER_HEIGHT } from './canvas';
+import { createDefaultConfig } from './density';
+import { DensitySimulation, type GridWindow, type InputSample } from './simulation';
+
+export const STROKE_LOG_VERSION = 1;
+
+// Replay frame duration (milliseconds)
+export const REPLAY_FRAME_TIME = 1000 / 60;
+
+/**
+ * Event times are milliseconds since the recording started
+ * Sample positions are canvas coordinates with the sheet scrolled to cell A1
+ * at 100% zoom, and configs measure the brush in sheet pixels
+ * Optional brush fields (strength, pressure, tilt, pointer id) are omitted when absent or default
+ * An end event without a pointer id ends every stroke
+ */
+export type StrokeEvent =
+  | ({ t: number; type: 'sample'; pointerId?: number } & BrushPoint)
+  | { t: number; type: 'end'; pointerId?: number }
+  | { t: number; type: 'config'; config: Config };
+
+export interface StrokeLog {
+  version: typeof STROKE_LOG_VERSION;
+  createdAt: string; // ISO timestamp
+  canvas: { width: number; height: number }; // Canvas size in CSS pixels, the least area replay covers
+  config: Config; // Config when recording started
+  events: StrokeEvent[];
+}
+
+/**
+ * Collects events into a stroke log
+ */
+export class StrokeRecorder {
+  private startTime: number;
+  private canvas: { width: number; height: number };
+  private config: Config;
+  private events: StrokeEvent[] = [];
+
+  /**
+   * @param startTime - Timestamp the recording starts at, same clock as the samples
+   */
+  constructor(config: Config, canvas: { width: number; height: number }, startTime: number) {
+    this.config = config;
+    this.canvas = { ...canvas };
+    this.startTime = startTime;
+  }
+
+  addSample(sample: InputSample): void {
+    const { x, y, strength, pressure, tiltX, tiltY, pointerId, timestamp } = sample;
+    const event: StrokeEvent = { t: timestamp - this.startTime, type: 'sample', x, y };
+
+    if (pointerId) event.pointerId = pointerId;
+    if (strength !== undefined && strength !== 1) event.strength = strength;
+    if (pressure !== undefined) event.pressure = pressure;
+    if (tiltX) event.tiltX = tiltX;
+    if (tiltY) event.tiltY = tiltY;
+
+    this.events.push(event);
+  }
+
+  endStroke(timestamp: number, pointerId?: number): void {
+    const event: StrokeEvent = { t: timestamp - this.startTime, type: 'end' };
+    if (pointerId !== undefined) event.pointerId = pointerId;
+    this.events.push(event);
+  }
+
+  setConfig(config: Config, timestamp: number): void {
+    this.events.push({ t: timestamp - this.startTime, type: 'config', config });
+  }
+
+  finish(): StrokeLog {
+    return {
+      version: STROKE_LOG_VERSION,
+      createdAt: new Date().toISOString(),
+      canvas: { ...this.canvas },
+      config: this.config,
+      events: [...this.events],
+    };
+  }
+}
+
+/**
+ * Base cells a replay simulates: the recorded canvas, extended to every cell
+ * the strokes reach on a scrolled sheet
+ */
+function getReplayWindow(log: StrokeLog): GridWindow {
+  const { baseCellWidth, baseCellHeight } = log.config;
+  let radius = log.config.influenceRadius;
+  let left = HEADER_WIDTH;
+  let top = HEADER_HEIGHT;
+  let right = log.canvas.width;
+  let bottom = log.canvas.height;
+
+  for (const event of log.events) {
+    if (event.type === 'config') {
+      radius = Math.max(radius, event.config.influenceRadius);
+    } else if (event.type === 'sample') {
+      left = Math.min(left, event.x - radius);
+      top = Math.min(top, event.y - radius);
+      right = Math.max(right, event.x + radius);
+      bottom = Math.max(bottom, event.y + radius);
+    }
+  }
+
+  const col = Math.max(0, Math.floor((left - HEADER_WIDTH) / baseCellWidth));
+  const row = Math.max(0, Math.floor((top - HEADER_HEIGHT) / baseCellHeight));
+  return {
+    col,
+    row,
+    columns: Math.max(0, Math.ceil((right - HEADER_WIDTH) / baseCellWidth) - col),
+    rows: Math.max(0, Math.ceil((bottom - HEADER_HEIGHT) / baseCellHeight) - row),
+  };
+}
+
+/**
+ * Sheet area the strokes of a log were painted over (sample positions, without
+ * the brush radius), null for a log without samples
+ */
+export function getStrokeBounds(log: StrokeLog): CellBounds | null {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+
+  for (const event of log.events) {
+    if (event.type === 'sample') {
+      left = Math.min(left, event.x);
+      top = Math.min(top, event.y);
+      right = Math.max(right, event.x);
+      bottom = Math.max(bottom, event.y);
+    }
+  }
+
+  if (left > right) return null;
+  return {
+    x: left - HEADER_WIDTH,
+    y: top - HEADER_HEIGHT,
+    width: right - left,
+    height: bottom - top,
+  };
+}
+
+/**
+ * Steps a fresh simulation through a stroke log
+ */
+export class StrokePlayer {
+  readonly simulation: DensitySimulation;
+  private log: StrokeLog;
+  private eventIndex = 0;
+  private frameIndex = 0;
+  private pendingTime = 0;
+
+  constructor(log: StrokeLog) {
+    this.log = log;
+    this.simulation = new DensitySimulation(log.config, { columns: 0, rows: 0 }, 0);
+    this.simulation.setWindow(getReplayWindow(log));
+  }
+
+  /**
+   * True once every event has been applied
+   */
+  get finished(): boolean {
+    return this.eventIndex >= this.log.events.length;
+  }
+
+  /**
+   * Number of fixed frames simulated so far
+   */
+  get frame(): number {
+    return this.frameIndex;
+  }
+
+  /**
+   * Simulate one fixed frame, applying the events that happened during it
+   */
+  stepFrame(): void {
+    const frameEnd = (this.frameIndex + 1) * REPLAY_FRAME_TIME;
+    const { events } = this.log;
+
+    while (this.eventIndex < events.length && events[this.eventIndex].t <= frameEnd) {
+      this.apply(events[this.eventIndex]);
+      this.eventIndex++;
+    }
+
+    this.simulation.step(REPLAY_FRAME_TIME / 1000);
+    this.frameIndex++;
+  }
+
+  /**
+   * Advance playback by elapsed log time, simulating every whole frame it covers
+   */
+  advance(elapsed: number): void {
+    this.pendingTime += elapsed;
+
+    while (this.pendingTime >= REPLAY_FRAME_TIME && !this.finished) {
+      this.pendingTime -= REPLAY_FRAME_TIME;
+      this.stepFrame();
+    }
+  }
+
+  private apply(event: StrokeEvent): void {
+    switch (event.type) {
+      case 'sample': {
+        // Simulation works in sheet coordinates (origin at cell A1)
+        const { t, type, ...point } = event;
+        this.simulation.addSample({
+          ...point,
+          x: point.x - HEADER_WIDTH,
+          y: point.y - HEADER_HEIGHT,
+          timestamp: t,
+        });
+        break;
+      }
+      case 'end':
+        this.simulation.endStroke(event.pointerId);
+        break;
+      case 'config':
+        this.simulation.setConfig(event.config);
+        break;
+    }
+  }
+}
+
+/**
+ * Replay a whole log headlessly, calling onFrame after every fixed frame
+ * Useful for regression fixtures: the same log always yields the same frames
+ */
+export function replayStrokeLog(
+  log: StrokeLog,
+  onFrame?: (simulation: DensitySimulation, frame: number) => void
+): DensitySimulation {
+  const player = new StrokePlayer(log);
+
+  while (!player.finished) {
+    player.stepFrame();
+    onFrame?.(player.simulation, player.frame);
+  }
+
+  return player.simulation;
+}
+
+/**
+ * Parse and validate a stroke log from JSON text
+ */
+export function parseStrokeLog(json: string): StrokeLog {
+  const data = JSON.parse(json);
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Stroke log must be a JSON object');
+  }
+  if (data.version !== STROKE_LOG_VERSION) {
+    throw new Error(`Unsupported stroke log version: ${data.version}`);
+  }
+  if (!data.canvas || typeof data.canvas.width !== 'number' || typeof data.canvas.height !== 'number') {
+    throw new Error('Stroke log is missing the canvas size');
+  }
+  if (!data.config || typeof data.config !== 'object') {
+    throw new Error('Stroke log is missing the config');
+  }
+  if (!Array.isArray(data.events)) {
+    throw new Error('Stroke log is missing the event list');
+  }
+
+  // Fill in settings added after the log was written
+  const withDefaults = (config: Partial<Config>): Config => ({ ...createDefaultConfig(), ...config });
+
+  return {
+    ...data,
+    config: withDefaults(data.config),
+    events: data.events.map((event: StrokeEvent) =>
+      event.type === 'config' ? { ...event, config: withDefaults(event.config) } : event
+    ),
+  };
+}
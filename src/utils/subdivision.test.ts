@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'bun:test';
+import { SubdivisionGeometryCache, subdivideCellOnce } from './subdivision';
+
+describe('SubdivisionGeometryCache', () => {
+  test('splits like subdivideCellOnce, relative to the base cell', () => {
+    const cache = new SubdivisionGeometryCache();
+    const root = cache.getRoot(80, 24, 6);
+    const { children, line } = SubdivisionGeometryCache.split(root, 'vertical');
+
+    expect(children.map((child) => child.bounds)).toEqual(subdivideCellOnce(root.bounds, 'vertical'));
+    expect(children.map((child) => child.level)).toEqual([1, 1]);
+    expect(line).toEqual({ x1: 40, y1: 0, x2: 40, y2: 24, level: 1 });
+
+    const [, second] = SubdivisionGeometryCache.split(children[1], 'horizontal').children;
+    expect(second.bounds).toEqual({ x: 40, y: 12, width: 40, height: 12 });
+  });
+
+  test('reuses geometry until the size or deepest level changes', () => {
+    const cache = new SubdivisionGeometryCache();
+    const root = cache.getRoot(80, 24, 6);
+    const split = SubdivisionGeometryCache.split(root, 'horizontal');
+
+    expect(cache.getRoot(80, 24, 6)).toBe(root);
+    expect(SubdivisionGeometryCache.split(root, 'horizontal')).toBe(split);
+    expect(cache.getRoot(100, 24, 6)).not.toBe(root);
+    expect(cache.getRoot(100, 24, 6).bounds.width).toBe(100);
+    expect(cache.getRoot(100, 24, 4)).not.toBe(cache.getRoot(100, 24, 6));
+  });
+});
@@ -8,6 +8,7 @@ import type {
   SubdivisionParams,
   CellBounds,
 } from '../types/spreadsheet';
+import { evaluateFalloff } from './falloff';
 
 /**
  * Calculate Euclidean distance between two points
@@ -60,7 +61,7 @@ export function calculateSubdivisionLevelExponential(
   }
 
   const normalizedDistance = distance / maxRadius;
-  const level = Math.floor(maxLevel * Math.pow(1 - normalizedDistance, 2));
+  const level = Math.floor(maxLevel * evaluateFalloff('quadratic', normalizedDistance));
 
   return Math.max(0, Math.min(maxLevel, level));
 }
@@ -112,74 +113,6 @@ export function subdivideCellOnce(
   }
 }
 
-/**
- * Recursively subdivide a cell to a target level
- */
-export function subdivideCell(
-  cell: CellBounds,
-  targetLevel: number,
-  currentLevel: number = 0
-): CellBounds[] {
-  // Base case: reached target level
-  if (currentLevel >= targetLevel) {
-    return [cell];
-  }
-
-  // Determine subdivision direction
-  const direction = getSubdivisionDirection(cell.width, cell.height);
-
-  // Subdivide once
-  const [child1, child2] = subdivideCellOnce(cell, direction);
-
-  // Recursively subdivide children
-  const nextLevel = currentLevel + 1;
-  return [
-    ...subdivideCell(child1, targetLevel, nextLevel),
-    ...subdivideCell(child2, targetLevel, nextLevel),
-  ];
-}
-
-/**
- * Get all cells at each subdivision level (for drawing nested grids)
- * Returns a map of level -> cells at that level
- */
-export function getCellsAtEachLevel(
-  cell: CellBounds,
-  targetLevel: number
-): Map<number, CellBounds[]> {
-  const levelMap = new Map<number, CellBounds[]>();
-
-  function subdivideRecursive(
-    currentCell: CellBounds,
-    currentLevel: number
-  ): void {
-    // Add current cell to its level
-    if (!levelMap.has(currentLevel)) {
-      levelMap.set(currentLevel, []);
-    }
-    levelMap.get(currentLevel)!.push(currentCell);
-
-    // Base case: reached target level
-    if (currentLevel >= targetLevel) {
-      return;
-    }
-
-    // Determine subdivision direction
-    const direction = getSubdivisionDirection(currentCell.width, currentCell.height);
-
-    // Subdivide once
-    const [child1, child2] = subdivideCellOnce(currentCell, direction);
-
-    // Recursively subdivide children
-    const nextLevel = currentLevel + 1;
-    subdivideRecursive(child1, nextLevel);
-    subdivideRecursive(child2, nextLevel);
-  }
-
-  subdivideRecursive(cell, 0);
-  return levelMap;
-}
-
 /**
  * Represents a subdivision line
  */
@@ -192,58 +125,68 @@ export interface SubdivisionLine {
 }
 
 /**
- * Get all subdivision lines created at each level
- * Returns lines (not cells) that were added by each subdivision
+ * Geometry of a subcell relative to the top-left corner of its base cell
  */
-export function getSubdivisionLines(
-  cell: CellBounds,
-  targetLevel: number
-): SubdivisionLine[] {
-  const lines: SubdivisionLine[] = [];
-
-  function subdivideRecursive(
-    currentCell: CellBounds,
-    currentLevel: number
-  ): void {
-    // Base case: reached target level
-    if (currentLevel >= targetLevel) {
-      return;
-    }
+export interface SubcellGeometry {
+  bounds: CellBounds;
+  level: number;
+  // Children and split line for each direction the subcell has been split in
+  splits: Partial<Record<SubdivisionDirection, SubcellSplit>>;
+}
 
-    // Determine subdivision direction
-    const direction = getSubdivisionDirection(currentCell.width, currentCell.height);
-
-    // Create the subdivision line at the next level
-    const nextLevel = currentLevel + 1;
-
-    if (direction === 'vertical') {
-      // Vertical line splits the cell in half horizontally
-      const midX = currentCell.x + currentCell.width / 2;
-      lines.push({
-        x1: midX,
-        y1: currentCell.y,
-        x2: midX,
-        y2: currentCell.y + currentCell.height,
-        level: nextLevel,
-      });
-    } else {
-      // Horizontal line splits the cell in half vertically
-      const midY = currentCell.y + currentCell.height / 2;
-      lines.push({
-        x1: currentCell.x,
-        y1: midY,
-        x2: currentCell.x + currentCell.width,
-        y2: midY,
-        level: nextLevel,
-      });
-    }
+export interface SubcellSplit {
+  children: [SubcellGeometry, SubcellGeometry];
+  line: SubdivisionLine;
+}
 
-    // Subdivide once and recurse on children
-    const [child1, child2] = subdivideCellOnce(currentCell, direction);
-    subdivideRecursive(child1, nextLevel);
-    subdivideRecursive(child2, nextLevel);
+/**
+ * Subcell geometry shared by every base cell
+ *
+ * All base cells have the same size, so a subcell reached by the same splits
+ * has the same bounds in each of them, up to translation. Geometry is built
+ * the first time a split is seen and reused by every base cell afterwards.
+ * It is dropped when the base cell size or the deepest level changes.
+ */
+export class SubdivisionGeometryCache {
+  private root: SubcellGeometry | null = null;
+  private width = 0;
+  private height = 0;
+  private maxLevel = 0;
+
+  /**
+   * Geometry of a whole base cell of the given size
+   */
+  getRoot(width: number, height: number, maxLevel: number): SubcellGeometry {
+    if (!this.root || width !== this.width || height !== this.height || maxLevel !== this.maxLevel) {
+      this.width = width;
+      this.height = height;
+      this.maxLevel = maxLevel;
+      this.root = { bounds: { x: 0, y: 0, width, height }, level: 0, splits: {} };
+    }
+    return this.root;
   }
 
-  subdivideRecursive(cell, 0);
-  return lines;
+  /**
+   * Children and split line of a subcell split in a direction
+   */
+  static split(geometry: SubcellGeometry, direction: SubdivisionDirection): SubcellSplit {
+    let split = geometry.splits[direction];
+    if (!split) {
+      const { x, y, width, height } = geometry.bounds;
+      const [first, second] = subdivideCellOnce(geometry.bounds, direction);
+      const level = geometry.level + 1;
+      split = {
+        children: [
+          { bounds: first, level, splits: {} },
+          { bounds: second, level, splits: {} },
+        ],
+        line:
+          direction === 'vertical'
+            ? { x1: x + width / 2, y1: y, x2: x + width / 2, y2: y + height, level }
+            : { x1: x, y1: y + height / 2, x2: x + width, y2: y + height / 2, level },
+      };
+      geometry.splits[direction] = split;
+    }
+    return split;
+  }
 }
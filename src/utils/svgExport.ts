@@ -0,0 +1,259 @@
+/**
+ * SVG export of the sheet
+ *
+ * Writes every final cell as a rect, split lines as paths in one layer per
+ * subdivision level and the headers as text, so the subdivision can be
+ * printed or cut at any size. Cells and lines mirror the Canvas2D renderer.
+ */
+
+import type { CellBounds, SheetExportOptions, SubdividedCell } from '../types/spreadsheet';
+import {
+  HEADER_WIDTH,
+  HEADER_HEIGHT,
+  HEADER_FILL,
+  HEADER_BORDER,
+  HEADER_FONT_SIZE,
+  HEADER_FONT_FAMILY,
+  calculateImageBorderAlpha,
+  getColumnLabel,
+} from './canvas';
+import { densityToHeatColor } from './density';
+import { resolveCellColors } from './cellColors';
+import type { RenderFrame } from './renderer';
+import type { SubdivisionLine } from './subdivision';
+
+interface FilledRect extends CellBounds {
+  fill: string;
+}
+
+// Gridline color; per-level opacity comes from calculateImageBorderAlpha,
+// the same fade calculateImageBorderColor uses on screen
+const GRID_STROKE = 'rgb(128, 128, 128)';
+
+// Edges closer than this are treated as touching when merging cells
+const MERGE_EPSILON = 1e-6;
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Final cells with their fills, in sheet coordinates
+ */
+function collectCellRects(frame: RenderFrame): FilledRect[] {
+  const { simulation, debugMode } = frame;
+  const rects: FilledRect[] = [];
+  const imageCells: SubdividedCell[] = [];
+
+  for (const baseCell of simulation.getBaseCells()) {
+    if (simulation.getSubdivisionLevel(baseCell.baseX, baseCell.baseY) === 0) {
+      const fill = debugMode ? densityToHeatColor(baseCell.density ?? 0) : '#ffffff';
+      rects.push({ ...baseCell, fill });
+      continue;
+    }
+
+    for (const cell of simulation.getLeafCells(baseCell.baseX, baseCell.baseY)) {
+      if (debugMode) {
+        rects.push({ ...cell, fill: densityToHeatColor(cell.density ?? 0) });
+      } else {
+        imageCells.push(cell);
+      }
+    }
+  }
+
+  // Cells outside the image stay unfilled, as on screen
+  resolveCellColors(imageCells, frame).forEach((color, i) => {
+    if (color) {
+      const [r, g, b] = color.map(Math.round);
+      rects.push({ ...imageCells[i], fill: `rgb(${r}, ${g}, ${b})` });
+    }
+  });
+
+  return rects;
+}
+
+/**
+ * Join runs of same-color rects that share an edge along one axis
+ */
+function mergeRuns(rects: FilledRect[], axis: 'x' | 'y'): FilledRect[] {
+  const size = axis === 'x' ? 'width' : 'height';
+  const across = axis === 'x' ? 'y' : 'x';
+  const acrossSize = axis === 'x' ? 'height' : 'width';
+
+  // Only rects in the same row (or column) with the same extent can merge
+  const groups = new Map<string, FilledRect[]>();
+  for (const rect of rects) {
+    const key = `${rect.fill}|${formatNumber(rect[across])}|${formatNumber(rect[acrossSize])}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(rect);
+    } else {
+      groups.set(key, [rect]);
+    }
+  }
+
+  const merged: FilledRect[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => a[axis] - b[axis]);
+    let current = { ...group[0] };
+    for (const rect of group.slice(1)) {
+      if (Math.abs(current[axis] + current[size] - rect[axis]) < MERGE_EPSILON) {
+        current[size] = rect[axis] + rect[size] - current[axis];
+      } else {
+        merged.push(current);
+        current = { ...rect };
+      }
+    }
+    merged.push(current);
+  }
+  return merged;
+}
+
+/**
+ * Merge adjacent same-color cells, first along rows, then down columns
+ */
+function mergeRects(rects: FilledRect[]): FilledRect[] {
+  return mergeRuns(mergeRuns(rects, 'x'), 'y');
+}
+
+/**
+ * Path data per level, without duplicate segments
+ * Level 0 is the base grid, deeper levels are subdivision lines
+ */
+function collectLineLayers(frame: RenderFrame): Map<number, string[]> {
+  const { simulation, config } = frame;
+  const { col: firstCol, row: firstRow, columns, rows } = simulation.window;
+  const left = firstCol * config.baseCellWidth;
+  const top = firstRow * config.baseCellHeight;
+  const right = (firstCol + columns) * config.baseCellWidth;
+  const bottom = (firstRow + rows) * config.baseCellHeight;
+
+  const layers = new Map<number, string[]>();
+  const seen = new Set<string>();
+
+  const addLine = (line: SubdivisionLine) => {
+    const x1 = formatNumber(line.x1);
+    const y1 = formatNumber(line.y1);
+    const x2 = formatNumber(line.x2);
+    const y2 = formatNumber(line.y2);
+    const key = `${x1},${y1},${x2},${y2}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const segment = x1 === x2 ? `M${x1} ${y1}V${y2}` : `M${x1} ${y1}H${x2}`;
+    const layer = layers.get(line.level);
+    if (layer) {
+      layer.push(segment);
+    } else {
+      layers.set(line.level, [segment]);
+    }
+  };
+
+  // Shared base cell edges become one line each
+  for (let col = firstCol; col <= firstCol + columns; col++) {
+    const x = col * config.baseCellWidth;
+    addLine({ x1: x, y1: top, x2: x, y2: bottom, level: 0 });
+  }
+  for (let row = firstRow; row <= firstRow + rows; row++) {
+    const y = row * config.baseCellHeight;
+    addLine({ x1: left, y1: y, x2: right, y2: y, level: 0 });
+  }
+
+  simulation.getSubdivisionLines().forEach(addLine);
+  return layers;
+}
+
+/**
+ * Header cells and their labels, laid out like drawColumnHeaders and drawRowHeaders
+ * The corner cell is left out, it is drawn over them last
+ */
+function buildHeaders(frame: RenderFrame): { cells: string[]; labels: string[] } {
+  const { simulation, config, origin, zoom } = frame;
+  const { col: firstCol, row: firstRow, columns, rows } = simulation.window;
+  const cellWidth = config.baseCellWidth * zoom;
+  const cellHeight = config.baseCellHeight * zoom;
+  const cells: string[] = [];
+  const labels: string[] = [];
+
+  for (let i = firstCol; i < firstCol + columns; i++) {
+    const x = origin.x + i * cellWidth;
+    cells.push(`<rect x="${formatNumber(x)}" y="0" width="${formatNumber(cellWidth)}" height="${HEADER_HEIGHT}"/>`);
+    labels.push(
+      `<text x="${formatNumber(x + cellWidth / 2)}" y="${HEADER_HEIGHT / 2}">${getColumnLabel(i)}</text>`
+    );
+  }
+
+  for (let i = firstRow; i < firstRow + rows; i++) {
+    const y = origin.y + i * cellHeight;
+    cells.push(`<rect x="0" y="${formatNumber(y)}" width="${HEADER_WIDTH}" height="${formatNumber(cellHeight)}"/>`);
+    // Rows too short for a line of text stay unlabelled, as on screen
+    if (cellHeight >= HEADER_FONT_SIZE) {
+      labels.push(`<text x="${HEADER_WIDTH / 2}" y="${formatNumber(y + cellHeight / 2)}">${i + 1}</text>`);
+    }
+  }
+
+  return { cells, labels };
+}
+
+/**
+ * Build an SVG document of the sheet as it appears in the frame
+ * Without headers the document is cropped to the cell area
+ */
+export function buildSheetSvg(frame: RenderFrame, options: SheetExportOptions): string {
+  const { origin, zoom, width, height } = frame;
+  const viewX = options.headers ? 0 : HEADER_WIDTH;
+  const viewY = options.headers ? 0 : HEADER_HEIGHT;
+  const viewWidth = Math.max(1, width - viewX);
+  const viewHeight = Math.max(1, height - viewY);
+  const cellAreaWidth = formatNumber(Math.max(0, width - HEADER_WIDTH));
+  const cellAreaHeight = formatNumber(Math.max(0, height - HEADER_HEIGHT));
+
+  // Cells scrolled partly under the headers are clipped like on screen
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(viewWidth)}" height="${formatNumber(viewHeight)}" viewBox="${formatNumber(viewX)} ${formatNumber(viewY)} ${formatNumber(viewWidth)} ${formatNumber(viewHeight)}">`,
+    `<clipPath id="cell-area"><rect x="${HEADER_WIDTH}" y="${HEADER_HEIGHT}" width="${cellAreaWidth}" height="${cellAreaHeight}"/></clipPath>`,
+    `<rect x="${formatNumber(viewX)}" y="${formatNumber(viewY)}" width="${formatNumber(viewWidth)}" height="${formatNumber(viewHeight)}" fill="#ffffff"/>`,
+    '<g clip-path="url(#cell-area)">',
+    `<g id="sheet" transform="translate(${formatNumber(origin.x)} ${formatNumber(origin.y)}) scale(${formatNumber(zoom)})">`,
+  ];
+
+  // Cells
+  const rects = collectCellRects(frame);
+  lines.push('<g id="cells" shape-rendering="crispEdges">');
+  for (const rect of options.mergeCells ? mergeRects(rects) : rects) {
+    lines.push(
+      `<rect x="${formatNumber(rect.x)}" y="${formatNumber(rect.y)}" width="${formatNumber(rect.width)}" height="${formatNumber(rect.height)}" fill="${rect.fill}"/>`
+    );
+  }
+  lines.push('</g>');
+
+  // One layer per level, so each can be toggled or cut separately
+  if (options.gridlines) {
+    const layers = collectLineLayers(frame);
+    for (const level of [...layers.keys()].sort((a, b) => a - b)) {
+      const opacity = calculateImageBorderAlpha(level).toFixed(3);
+      lines.push(
+        `<g id="level-${level}" fill="none" stroke="${GRID_STROKE}" stroke-opacity="${opacity}" stroke-width="${formatNumber(0.5 / zoom)}">`,
+        `<path d="${(layers.get(level) as string[]).join('')}"/>`,
+        '</g>'
+      );
+    }
+  }
+  lines.push('</g>', '</g>');
+
+  if (options.headers) {
+    const headers = buildHeaders(frame);
+    lines.push(
+      `<g id="header-cells" fill="${HEADER_FILL}" stroke="${HEADER_BORDER}" stroke-width="1">`,
+      ...headers.cells,
+      '</g>',
+      `<g id="header-labels" fill="#000000" font-family="${HEADER_FONT_FAMILY}" font-size="${HEADER_FONT_SIZE}" text-anchor="middle" dominant-baseline="central">`,
+      ...headers.labels,
+      '</g>',
+      `<rect id="corner-header" x="0" y="0" width="${HEADER_WIDTH}" height="${HEADER_HEIGHT}" fill="${HEADER_FILL}" stroke="${HEADER_BORDER}" stroke-width="1"/>`
+    );
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n');
+}
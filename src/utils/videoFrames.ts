@@ -0,0 +1,58 @@
+/**
+ * Video frames as a color source
+ *
+ * Copies the current frame of a playing video into a small pixel buffer, so
+ * cells can sample moving footage like an inserted picture. Frames are kept
+ * small because the scene rebuilds its sampler and detail map for each one.
+ */
+
+import type { SceneImage } from '../types/spreadsheet';
+import type { DrawingContext } from './canvas';
+import { createLayerCanvas } from './renderer';
+
+// Frames read per second while a video plays
+export const VIDEO_FRAME_RATE = 15;
+
+// Longest side of a read frame in pixels
+export const MAX_VIDEO_FRAME_SIZE = 480;
+
+export class VideoFrameReader {
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private ctx: DrawingContext;
+
+  constructor() {
+    this.canvas = createLayerCanvas(1, 1);
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true }) as DrawingContext | null;
+    if (!ctx) {
+      throw new Error('2D canvas context is not available');
+    }
+    this.ctx = ctx;
+  }
+
+  /**
+   * Read the frame the video is showing, null before its first frame has loaded
+   */
+  async read(video: HTMLVideoElement): Promise<SceneImage | null> {
+    const { videoWidth, videoHeight } = video;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || videoWidth === 0 || videoHeight === 0) {
+      return null;
+    }
+
+    const scale = Math.min(1, MAX_VIDEO_FRAME_SIZE / Math.max(videoWidth, videoHeight));
+    const width = Math.max(1, Math.round(videoWidth * scale));
+    const height = Math.max(1, Math.round(videoHeight * scale));
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    // Same white backing as inserted pictures, for videos with transparency
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.fillRect(0, 0, width, height);
+    this.ctx.drawImage(video, 0, 0, width, height);
+
+    const data = this.ctx.getImageData(0, 0, width, height);
+    const bitmap = await createImageBitmap(data);
+    return { data, bitmap };
+  }
+}
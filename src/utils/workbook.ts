@@ -0,0 +1,119 @@
+/**
+ * Workbook documents
+ *
+ * A workbook saves everything needed to reopen a sheet as it was: the density
+ * config, the inserted image and its scale, what is typed into the cells, and
+ * optionally the density field with its timing, so held cells keep fading from
+ * where they were.
+ */
+
+import type { CellEntry, Config } from '../types/spreadsheet';
+import { createDefaultConfig } from './density';
+import type { DensitySnapshot, SnapshotCell } from './simulation';
+import type { DensityNode } from './densityTree';
+
+export const WORKBOOK_VERSION = 1;
+
+export const WORKBOOK_EXTENSION = '.xlsd';
+
+export interface Workbook {
+  version: typeof WORKBOOK_VERSION;
+  savedAt: string; // ISO timestamp
+  config: Config;
+  image: string | null; // Inserted image as a data URL
+  imageScale: number;
+  cells: CellEntry[]; // Values and formulas typed into cells
+  density: DensitySnapshot | null; // Painted sheet, null saves an empty sheet
+}
+
+/**
+ * Document name shown in the title bar, the file name without its extension
+ */
+export function getWorkbookName(filename: string): string {
+  return filename.endsWith(WORKBOOK_EXTENSION)
+    ? filename.slice(0, -WORKBOOK_EXTENSION.length)
+    : filename.replace(/\.[^.]*$/, '');
+}
+
+function isDensityNode(node: unknown): node is DensityNode {
+  if (!node || typeof node !== 'object') return false;
+  const { density, lastPaintedTime, children, direction } = node as DensityNode;
+  if (typeof density !== 'number' || typeof lastPaintedTime !== 'number') return false;
+  if (direction !== 'horizontal' && direction !== 'vertical') return false;
+  return (
+    children === null ||
+    (Array.isArray(children) && children.length === 2 && children.every(isDensityNode))
+  );
+}
+
+function isCellEntry(entry: unknown): entry is CellEntry {
+  if (!entry || typeof entry !== 'object') return false;
+  const { col, row, input, drivesDensity } = entry as CellEntry;
+  return (
+    Number.isInteger(col) &&
+    col >= 0 &&
+    Number.isInteger(row) &&
+    row >= 0 &&
+    typeof input === 'string' &&
+    (drivesDensity === undefined || typeof drivesDensity === 'boolean')
+  );
+}
+
+function isSnapshotCell(cell: unknown): cell is SnapshotCell {
+  if (!cell || typeof cell !== 'object') return false;
+  const { col, row, density, lastPaintedTime, tree } = cell as SnapshotCell;
+  return (
+    Number.isInteger(col) &&
+    col >= 0 &&
+    Number.isInteger(row) &&
+    row >= 0 &&
+    typeof density === 'number' &&
+    typeof lastPaintedTime === 'number' &&
+    (tree === null || isDensityNode(tree))
+  );
+}
+
+function parseDensitySnapshot(data: DensitySnapshot): DensitySnapshot {
+  const { time, cells } = data;
+  if (typeof time !== 'number') {
+    throw new Error('Workbook density is missing its time');
+  }
+  if (!Array.isArray(cells) || !cells.every(isSnapshotCell)) {
+    throw new Error('Workbook has invalid painted cells');
+  }
+  return data;
+}
+
+/**
+ * Parse and validate a workbook from JSON text
+ */
+export function parseWorkbook(json: string): Workbook {
+  const data = JSON.parse(json);
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Workbook must be a JSON object');
+  }
+  if (data.version !== WORKBOOK_VERSION) {
+    throw new Error(`Unsupported workbook version: ${data.version}`);
+  }
+  if (!data.config || typeof data.config !== 'object') {
+    throw new Error('Workbook is missing the config');
+  }
+  if (data.image !== null && (typeof data.image !== 'string' || !data.image.startsWith('data:image/'))) {
+    throw new Error('Workbook image must be an image data URL');
+  }
+  if (typeof data.imageScale !== 'number' || data.imageScale <= 0) {
+    throw new Error('Workbook is missing the image scale');
+  }
+  if (data.cells !== undefined && (!Array.isArray(data.cells) || !data.cells.every(isCellEntry))) {
+    throw new Error('Workbook has invalid cell contents');
+  }
+
+  return {
+    ...data,
+    // Fill in settings added after the workbook was written
+    config: { ...createDefaultConfig(), ...data.config },
+    cells: data.cells ?? [],
+    density: data.density ? parseDensitySnapshot(data.density) : null,
+  };
+}
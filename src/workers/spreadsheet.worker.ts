@@ -0,0 +1,116 @@
+/**
+ * Spreadsheet render worker
+ *
+ * Owns the OffscreenCanvas transferred from DensitySpreadsheet and runs the
+ * simulation and drawing off the main thread.
+ */
+
+import type { SpreadsheetWorkerMessage, SpreadsheetWorkerReply } from '../types/worker';
+import { SpreadsheetScene } from '../utils/scene';
+import { startFrameLoop } from '../utils/sceneHost';
+
+let scene: SpreadsheetScene | null = null;
+
+function reply(message: SpreadsheetWorkerReply, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<SpreadsheetWorkerMessage>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    scene = new SpreadsheetScene(message.canvas, message.config, performance.now());
+    scene.setOptions(message.options);
+    scene.resize(message.width, message.height, message.dpr);
+    const activeScene = scene;
+    startFrameLoop((time) => activeScene.frame(time));
+    return;
+  }
+
+  if (!scene) return;
+
+  switch (message.type) {
+    case 'resize':
+      scene.resize(message.width, message.height, message.dpr);
+      break;
+    case 'config':
+      scene.setConfig(message.config);
+      break;
+    case 'options':
+      scene.setOptions(message.options);
+      break;
+    case 'image':
+      scene.setImage(message.image);
+      break;
+    case 'sample':
+      // Convert the absolute timestamp to this worker's clock
+      scene.addSample({
+        ...message.sample,
+        timestamp: message.sample.timestamp - performance.timeOrigin,
+      });
+      break;
+    case 'endStroke':
+      scene.endStroke(message.pointerId);
+      break;
+    case 'replay':
+      scene.replay(message.log, message.speed);
+      break;
+    case 'restoreDensity':
+      scene.restoreDensity(message.config, message.snapshot);
+      break;
+    case 'setDensities':
+      scene.setDensities(message.values);
+      break;
+    case 'cells':
+      scene.setCells(message.entries);
+      break;
+    case 'selection':
+      scene.setSelection(message.cell);
+      break;
+    case 'viewport':
+      scene.setViewport(message.viewport);
+      break;
+    case 'snapshotDensity': {
+      // Posting can throw too, when the snapshot cannot be cloned
+      const { id } = message;
+      try {
+        reply({ type: 'densitySnapshot', id, snapshot: scene.snapshotDensity() });
+      } catch (error) {
+        reply({ type: 'failed', id, message: (error as Error).message });
+      }
+      break;
+    }
+    case 'export': {
+      const { id } = message;
+      scene.exportSheet(message.format, message.options).then(
+        (blob) => reply({ type: 'exported', id, blob }),
+        (error) => reply({ type: 'failed', id, message: (error as Error).message })
+      );
+      break;
+    }
+    case 'exportData': {
+      const { id } = message;
+      scene.exportData(message.options).then(
+        (blob) => reply({ type: 'exported', id, blob }),
+        (error) => reply({ type: 'failed', id, message: (error as Error).message })
+      );
+      break;
+    }
+    case 'startCapture':
+      scene.startCapture(message.options);
+      break;
+    case 'stopCapture': {
+      const { id } = message;
+      try {
+        const animation = scene.stopCapture();
+        reply(
+          { type: 'captured', id, animation },
+          animation.frames.map((frame) => frame.data.buffer)
+        );
+      } catch (error) {
+        reply({ type: 'failed', id, message: (error as Error).message });
+      }
+      break;
+    }
+  }
+};